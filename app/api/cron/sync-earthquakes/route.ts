@@ -1,33 +1,61 @@
+import { randomUUID } from 'crypto'
 import { NextRequest } from 'next/server'
-import { toHex } from 'viem'
-import { getSDK, getPublicClient } from '@/lib/sdk'
-import { EARTHQUAKE_SCHEMA_ID } from '@/lib/constants'
-import { encodeEarthquake, transformUSGSToSchema } from '@/lib/earthquake-encoding'
-import type { USGSResponse, Earthquake } from '@/types/earthquake'
+import { formatEther } from 'viem'
+import { checkPendingPublish, estimatePublishGas, publishConcurrently, toPendingPublish, type PublishJob } from '@/lib/publisher'
+import { PUBLISHER_ADDRESS, RETRACTION_SCHEMA_ID } from '@/lib/constants'
+import { toPublishJob } from '@/lib/publish-jobs'
+import { SchemaEncodingError } from '@/lib/schema-codecs'
+import { getSyncStateStore, PUBLISH_LOCK_TTL_MS, type ProcessedEarthquake } from '@/lib/sync-state'
+import { createSourcesFromEnv, fetchFromSources, getUSGSSummaryFeed, mergeEarthquakes } from '@/lib/sources'
+import { describeOracleConfig, FEED_WINDOW_MS, getOracleConfig, matchesOracleConfig, OracleConfigError } from '@/lib/oracle-config'
+import { getMaterialChanges, isNewerRevision, toPublishedSnapshot, type RevisedField } from '@/lib/earthquake-revisions'
+import { findRetractions, type RetractionCandidate } from '@/lib/earthquake-retractions'
+import { isRetryDue, recordFailure, type FailedPublish, type PublishItem } from '@/lib/publish-retries'
+import type { Earthquake } from '@/types/earthquake'
 
-// USGS API endpoint - fetches earthquakes from the last day for better coverage
-// Options: all_hour.geojson, all_day.geojson, all_week.geojson
-const USGS_API = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_day.geojson'
+// Earthquake providers come from EARTHQUAKE_SOURCES (default: the USGS summary feed)
+// See lib/sources for the available adapters
 
-// Minimum magnitude threshold (2.0 for more data, 2.5 for less)
-// Adjust this to control data volume:
-// - 1.0+: Hundreds per hour (very busy)
-// - 2.0+: ~100-200 per day (good activity)
-// - 2.5+: ~50-100 per day (moderate)
-// - 4.0+: ~5-20 per day (major events only)
-const MIN_MAGNITUDE = 2.0
+// Magnitude/depth/region slice, feed window, User-Agent, bootstrap window, publishing
+// limits and the per-run cap come from the oracle config (see lib/oracle-config.ts)
 
-// Track last processed earthquake to avoid duplicates
-// In production, you'd want to use a database for this
-let lastProcessedId: string | null = null
-// Start 1 hour in the past on first run to get recent earthquakes
-let lastProcessedTime: number = Date.now() - (60 * 60 * 1000)
+// Events this close to the trailing edge of the window may drop out of the feed
+// between runs, so they are not checked for disappearance
+const RETRACTION_EDGE_MARGIN_MS = 60 * 60 * 1000
 
 /**
- * Vercel Cron Job: Syncs earthquake data from USGS to Somnia blockchain
+ * Response summary of one planned or published item
+ */
+function summarizeItem(item: PublishItem) {
+  return item.type === 'retracted'
+    ? {
+        id: item.earthquakeId,
+        type: item.type,
+        reason: item.reason,
+        magnitude: item.record.published?.magnitude,
+        location: item.record.published?.location,
+        time: new Date(item.record.time).toISOString()
+      }
+    : {
+        id: item.earthquakeId,
+        type: item.type,
+        magnitude: item.quake.magnitude,
+        location: item.quake.location,
+        time: new Date(item.quake.timestamp).toISOString(),
+        sourceIds: item.quake.sourceIds,
+        sourceHash: item.quake.sourceRecord?.hash,
+        ...(item.type === 'updated' && { changes: item.changes })
+      }
+}
+
+/**
+ * Vercel Cron Job: Syncs earthquake data from USGS (and any other configured sources) to Somnia blockchain
  * Runs every 60 seconds (Vercel's minimum interval)
  * 
  * Protected by Vercel Cron secret for security
+ * 
+ * `?dryRun=true` plans the sync without signing, sending or persisting anything:
+ * the response lists each hex ID, encoded payload, event topic and gas estimate.
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret (Vercel sets this automatically)
@@ -39,149 +67,439 @@ export async function GET(request: NextRequest) {
   // Allow forcing a full refresh (fetches last 24 hours)
   const { searchParams } = new URL(request.url)
   const forceRefresh = searchParams.get('force') === 'true'
-  
-  if (forceRefresh) {
-    console.log('🔄 FORCE REFRESH: Resetting to fetch last 24 hours')
-    lastProcessedTime = Date.now() - (24 * 60 * 60 * 1000)
-    lastProcessedId = null
-  }
+  const dryRun = searchParams.get('dryRun') === 'true'
   
   const startTime = Date.now()
-  console.log('🔄 Starting earthquake sync...')
-  console.log('Time:', new Date().toISOString())
-  console.log('Min magnitude:', MIN_MAGNITUDE)
-  console.log('Last processed:', new Date(lastProcessedTime).toISOString())
+  // Set once this run holds the publish lock
+  let releasePublishLock: (() => Promise<void>) | null = null
   
   try {
-    const sdk = getSDK()
+    // Validated once per process - an invalid config fails every run with the full list of problems
+    const loadedConfig = getOracleConfig()
+    const { config } = loadedConfig
+    const configSummary = describeOracleConfig(loadedConfig)
+    const minMagnitude = config.magnitude.min ?? null
+    
+    // How far back to look for revisions of already-published quakes (matches the USGS feed)
+    const revisionWindowMs = FEED_WINDOW_MS[config.feedWindow]
     
-    // Step 1: Fetch from USGS
-    console.log('📥 Fetching from USGS API...')
-    const response = await fetch(USGS_API, {
-      headers: {
-        'User-Agent': 'Somnia-Earthquake-Alerts/1.0'
+    // Cursor and processed IDs are persisted, so they survive cold starts and redeploys
+    const store = await getSyncStateStore()
+    
+    // Overlapping runs, or a backfill, would take the same nonces and replace each other's transactions
+    if (!dryRun) {
+      const lockOwner = `sync:${randomUUID()}`
+      if (!await store.acquirePublishLock(lockOwner, PUBLISH_LOCK_TTL_MS)) {
+        console.log('🔒 Another sync or a backfill is publishing - skipping this run')
+        return Response.json({ success: true, skipped: 'publish lock held by another sync or a backfill', duration: Date.now() - startTime })
       }
+      releasePublishLock = () => store.releasePublishLock(lockOwner)
+    }
+    
+    const cursor = await store.getCursor()
+    
+    let lastProcessedId = cursor?.lastProcessedId ?? null
+    let lastProcessedTime = cursor?.lastProcessedTime ?? startTime - config.bootstrapWindowMs
+    
+    if (forceRefresh) {
+      // Already-published IDs are still skipped via the processed set below
+      console.log(`🔄 FORCE REFRESH: Resetting to fetch the last ${config.feedWindow}`)
+      lastProcessedTime = startTime - revisionWindowMs
+      lastProcessedId = null
+    }
+    
+    console.log(`🔄 Starting earthquake sync${dryRun ? ' (DRY RUN - nothing will be sent)' : ''}...`)
+    console.log('Time:', new Date().toISOString())
+    console.log(`Config: ${config.name} (${configSummary.file ?? 'defaults'}${loadedConfig.overrides.length > 0 ? ` + ${loadedConfig.overrides.join(', ')}` : ''})`)
+    console.log('Min magnitude:', minMagnitude)
+    console.log('Last processed:', new Date(lastProcessedTime).toISOString())
+    
+    // Step 1: Fetch from every configured source and merge duplicates
+    // The revision window is always fetched so corrections to published quakes are seen
+    const sources = createSourcesFromEnv({
+      usgsFeedUrl: getUSGSSummaryFeed(config.feedWindow),
+      userAgent: config.userAgent
     })
+    console.log(`📥 Fetching from ${sources.map(source => source.name).join(', ')}...`)
     
-    if (!response.ok) {
-      throw new Error(`USGS API error: ${response.status} ${response.statusText}`)
-    }
-    
-    const data: USGSResponse = await response.json()
-    console.log(`📊 USGS returned ${data.features.length} earthquakes`)
-    console.log(`   Generated at: ${new Date(data.metadata.generated).toISOString()}`)
-    
-    // Step 2: Filter new earthquakes
-    const newQuakes = data.features
-      .filter(quake => {
-        // Filter by magnitude
-        if (quake.properties.mag < MIN_MAGNITUDE) return false
-        
-        // Filter by time - use < instead of <= to catch earthquakes with same timestamp
-        if (quake.properties.time < lastProcessedTime) return false
-        
-        // Skip the last processed ID specifically (handles same-timestamp case)
-        if (lastProcessedId && quake.id === lastProcessedId) return false
-        
-        return true
-      })
-      .sort((a, b) => a.properties.time - b.properties.time) // Oldest first
+    // No magnitude floor at the source: a quake revised below the configured minimum must not look deleted
+    const sourceResults = await fetchFromSources(sources, {
+      startTime: Math.min(lastProcessedTime, startTime - revisionWindowMs)
+    })
+    
+    const failedSources = sourceResults.filter(result => result.error)
+    failedSources.forEach(result => console.error(`   ❌ ${result.source} failed: ${result.error}`))
+    if (failedSources.length === sourceResults.length) {
+      throw new Error(`All earthquake sources failed: ${failedSources.map(r => `${r.source}: ${r.error}`).join('; ')}`)
+    }
+    
+    // Features that failed validation are reported, never published
+    const quarantined = sourceResults.flatMap(result => result.quarantined)
+    if (quarantined.length > 0) {
+      console.warn(`   🚧 ${quarantined.length} malformed earthquakes quarantined`)
+    }
+    
+    const totalFetched = sourceResults.reduce((sum, result) => sum + result.earthquakes.length, 0)
+    const allMerged = mergeEarthquakes(sourceResults)
+    const merged = allMerged
+      .filter(quake => !quake.retracted && matchesOracleConfig(quake, config))
+      .sort((a, b) => a.timestamp - b.timestamp) // Oldest first
+    console.log(`📊 Sources returned ${totalFetched} earthquakes (${allMerged.length} after cross-source merge)`)
     
-    console.log(`   After filtering: ${newQuakes.length} new earthquakes`)
+    // Which source each ID came from, so published records remember it
+    const sourceOf = new Map(sourceResults.flatMap(result => result.earthquakes.map(q => [q.earthquakeId, result.source] as const)))
+    
+    // Step 2: Split into new earthquakes, revisions and retractions of published ones
+    const processed = await store.getProcessed(allMerged.flatMap(q => q.sourceIds ?? [q.earthquakeId]))
+    const isProcessed = (quake: Earthquake) => (quake.sourceIds ?? [quake.earthquakeId]).some(id => processed.has(id))
+    
+    let newQuakes = merged.filter(quake => {
+      // Anything already published under any of its source IDs is never new, even if the time cursor was reset
+      if (isProcessed(quake)) return false
+      
+      // Filter by time - use < instead of <= to catch earthquakes with same timestamp
+      if (quake.timestamp < lastProcessedTime) return false
+      
+      // Skip the last processed ID specifically (handles same-timestamp case)
+      if (lastProcessedId && quake.earthquakeId === lastProcessedId) return false
+      
+      return true
+    })
+    
+    let revisions: Array<{ quake: Earthquake; changes: RevisedField[] }> = []
+    const baselines: ProcessedEarthquake[] = []
+    
+    for (const quake of merged) {
+      const record = processed.get(quake.earthquakeId)
+      // Only the record published under this same ID can be revised in place
+      if (!record || record.publishedAs || record.retractedAt) continue
+      
+      if (!record.published) {
+        // Published before revision tracking existed - adopt the current values as the baseline
+        baselines.push({ ...record, published: toPublishedSnapshot(quake) })
+        continue
+      }
+      
+      if (!isNewerRevision(record.published, quake)) continue
+      
+      const changes = getMaterialChanges(record.published, quake)
+      if (changes.length > 0) {
+        revisions.push({ quake, changes })
+      }
+    }
+    
+    if (baselines.length > 0 && !dryRun) {
+      await store.markProcessed(baselines)
+    }
+    
+    // Retractions need the tombstone schema - without it deleted events are only logged
+    let retractions: RetractionCandidate[] = []
+    const completeSources = new Set(sourceResults
+      .filter(result => !result.error && sources.find(source => source.name === result.source)?.completeWindow)
+      .map(result => result.source))
+    const recent = await store.listProcessed(startTime - revisionWindowMs + RETRACTION_EDGE_MARGIN_MS, startTime)
+    const retractionCheck = findRetractions({
+      merged: allMerged,
+      quarantinedIds: new Set(quarantined.flatMap(entry => entry.id ? [entry.id] : [])),
+      processed,
+      recent,
+      completeSources,
+      defaultSource: sources[0].name,
+      now: startTime
+    })
+    
+    if (retractionCheck.missingUpdates.length > 0 && !dryRun) {
+      await store.markProcessed(retractionCheck.missingUpdates)
+    }
+    
+    if (RETRACTION_SCHEMA_ID) {
+      retractions = retractionCheck.retractions
+    } else if (retractionCheck.retractions.length > 0) {
+      console.warn(`⚠️  ${retractionCheck.retractions.length} earthquakes were deleted by their source, but NEXT_PUBLIC_RETRACTION_SCHEMA_ID is not set`)
+    }
+    
+    /**
+     * Sync state records for a published item
+     * A quake records every source ID, so the event is not republished from another provider.
+     */
+    const toProcessedRecords = (item: PublishItem, txHash: string): ProcessedEarthquake[] => {
+      if (item.type === 'retracted') {
+        return [{
+          ...item.record,
+          missingSince: undefined,
+          retractedAt: startTime,
+          retractionReason: item.reason
+        }]
+      }
+      
+      const eq = item.quake
+      return (eq.sourceIds ?? [eq.earthquakeId]).map(sourceId => ({
+        ...processed.get(sourceId),
+        earthquakeId: sourceId,
+        time: eq.timestamp,
+        processedAt: Date.now(),
+        txHash,
+        source: sourceOf.get(sourceId),
+        ...(sourceId === eq.earthquakeId
+          ? { published: toPublishedSnapshot(eq), sourceHash: eq.sourceRecord?.hash }
+          : { publishedAs: eq.earthquakeId })
+      }))
+    }
+    
+    // Failed publishes from earlier runs whose backoff has elapsed
+    // (the cursor has moved past them, so without the queue they would never be retried)
+    const failedQueue = await store.listFailed()
+    const queuedById = new Map(failedQueue.map(entry => [entry.earthquakeId, entry]))
+    const freshIds = new Set([
+      ...newQuakes.map(q => q.earthquakeId),
+      ...revisions.map(({ quake }) => quake.earthquakeId),
+      ...retractions.map(({ record }) => record.earthquakeId)
+    ])
+    const settledRetries: string[] = []
+    // Queued publishes whose timed-out transaction was mined after all
+    const minedLate: ProcessedEarthquake[] = []
+    // Neither retried nor published fresh this run
+    const heldIds = new Set<string>()
+    
+    // A timed-out transaction can still be mined - publishing again would write the record and emit
+    // the events twice. Checked for every entry about to go out, including ones found fresh again
+    // (a revision, a retraction, or a new quake under ?force=true); only a reverted or dropped one is republished
+    for (const entry of failedQueue) {
+      const { earthquakeId, item, pending } = entry
+      if (!pending || !(freshIds.has(earthquakeId) || isRetryDue(entry, startTime))) continue
+      
+      const outcome = await checkPendingPublish(pending, PUBLISHER_ADDRESS)
+      if (outcome.status === 'pending') {
+        console.log(`   ⏳ ${earthquakeId}: timed-out transaction at nonce ${pending.nonce} may still be mined - holding it back`)
+        heldIds.add(earthquakeId)
+      } else if (outcome.status === 'confirmed') {
+        console.log(`   ✅ ${earthquakeId}: timed-out transaction ${outcome.txHash} was mined after all - not republishing`)
+        minedLate.push(...toProcessedRecords(item, outcome.txHash))
+        settledRetries.push(earthquakeId)
+        heldIds.add(earthquakeId)
+      }
+    }
+    
+    if (heldIds.size > 0) {
+      newQuakes = newQuakes.filter(quake => !heldIds.has(quake.earthquakeId))
+      revisions = revisions.filter(({ quake }) => !heldIds.has(quake.earthquakeId))
+      retractions = retractions.filter(({ record }) => !heldIds.has(record.earthquakeId))
+    }
+    
+    const dueRetries = failedQueue.filter(entry => isRetryDue(entry, startTime) && !freshIds.has(entry.earthquakeId) && !heldIds.has(entry.earthquakeId))
+    const queuedProcessed = await store.getProcessed(dueRetries.map(entry => entry.earthquakeId))
+    const mergedById = new Map(merged.map(q => [q.earthquakeId, q]))
+    const retryItems: PublishItem[] = []
+    
+    for (const { earthquakeId, item } of dueRetries) {
+      const record = queuedProcessed.get(earthquakeId)
+      if (item.type === 'retracted') {
+        if (record?.retractedAt) settledRetries.push(earthquakeId)
+        else if (RETRACTION_SCHEMA_ID) retryItems.push(item)
+        continue
+      }
+      
+      // Published by a later run (e.g. a forced refresh) - nothing left to retry
+      if (item.type === 'new' && record) {
+        settledRetries.push(earthquakeId)
+        continue
+      }
+      
+      // Retry with the source's current values when it still lists the quake
+      retryItems.push({ ...item, quake: mergedById.get(earthquakeId) ?? item.quake })
+    }
+    
+    if (settledRetries.length > 0 && !dryRun) {
+      await store.markProcessed(minedLate)
+      await store.removeFailed(settledRetries)
+    }
+    
+    console.log(`   After filtering: ${newQuakes.length} new earthquakes, ${revisions.length} revisions, ${retractions.length} retractions, ${retryItems.length} retries`)
     if (newQuakes.length > 0 && newQuakes.length < 5) {
       newQuakes.forEach(q => {
-        console.log(`   - ${q.id}: M${q.properties.mag} at ${new Date(q.properties.time).toISOString()}`)
+        console.log(`   - ${q.earthquakeId}: M${q.magnitude} at ${new Date(q.timestamp).toISOString()}`)
       })
     }
+    revisions.forEach(({ quake, changes }) => {
+      console.log(`   ✏️  ${quake.earthquakeId} revised: ${changes.join(', ')}`)
+    })
+    retractions.forEach(({ record, reason }) => {
+      console.log(`   🪦 ${record.earthquakeId} retracted (${reason})`)
+    })
+    
+    const sourceSummary = sourceResults.map(result => ({
+      source: result.source,
+      fetched: result.earthquakes.length,
+      quarantined: result.quarantined.length,
+      ...(result.error && { error: result.error })
+    }))
     
-    if (newQuakes.length === 0) {
+    if (newQuakes.length === 0 && revisions.length === 0 && retractions.length === 0 && retryItems.length === 0) {
       console.log('✅ No new earthquakes since last check')
       return Response.json({ 
         success: true, 
+        ...(dryRun && { dryRun, plan: [], estimatedGas: '0', estimatedCost: '0 STT' }),
         newQuakes: 0,
-        totalFetched: data.features.length,
-        minMagnitude: MIN_MAGNITUDE,
+        updatedQuakes: 0,
+        retractedQuakes: 0,
+        retried: 0,
+        retryQueue: {
+          queued: failedQueue.length - settledRetries.length,
+          deadLettered: failedQueue.filter(entry => entry.deadLettered).length
+        },
+        totalFetched,
+        sources: sourceSummary,
+        quarantined,
+        minMagnitude,
+        config: configSummary,
         lastCheck: new Date(lastProcessedTime).toISOString(),
         duration: Date.now() - startTime
       })
     }
     
-    console.log(`🆕 Found ${newQuakes.length} new earthquakes to publish`)
+    console.log(`🆕 Found ${newQuakes.length} new earthquakes, ${revisions.length} revisions, ${retractions.length} retractions and ${retryItems.length} retries to publish`)
     
     // Step 3: Transform and prepare for blockchain
-    const dataStreams = []
-    const eventStreams = []
+    // Revisions reuse the original hex ID so the corrected record replaces the stale one;
+    // retractions write a tombstone under the same hex ID in the retraction schema
+    const plannedItems: PublishItem[] = [
+      ...newQuakes.map(quake => ({ type: 'new' as const, earthquakeId: quake.earthquakeId, quake, changes: [] })),
+      ...revisions.map(({ quake, changes }) => ({ type: 'updated' as const, earthquakeId: quake.earthquakeId, quake, changes })),
+      ...retractions.map(({ record, reason }) => ({ type: 'retracted' as const, earthquakeId: record.earthquakeId, record, reason })),
+      ...retryItems
+    ]
+    
+    // Per-run cap: new quakes go first (oldest first) and the cursor only advances past
+    // the ones taken; deferred revisions, retractions and retries are found again next run
+    const items = config.maxItemsPerRun === null ? plannedItems : plannedItems.slice(0, config.maxItemsPerRun)
+    const deferred = plannedItems.length - items.length
+    const includedNewQuakes = items.flatMap(item => item.type === 'new' ? [item.quake] : [])
     
-    for (const usgsQuake of newQuakes) {
-      const quake = transformUSGSToSchema(usgsQuake)
+    if (deferred > 0) {
+      console.log(`✂️  Per-run cap of ${config.maxItemsPerRun}: deferring ${deferred} item(s) to the next run`)
+    }
+    const jobs: PublishJob[] = []
+    const publishItems: PublishItem[] = []
+    // Items the schema cannot hold (NaN, out-of-range values) - dead-lettered without sending
+    const rejected: FailedPublish[] = []
+    
+    for (const item of items) {
+      let job: PublishJob
+      try {
+        job = toPublishJob(item, startTime)
+      } catch (error) {
+        if (!(error instanceof SchemaEncodingError)) throw error
+        console.error(`  🚫 Cannot encode ${item.earthquakeId}: ${error.message}`)
+        rejected.push(recordFailure(item, error.message, Date.now(), queuedById.get(item.earthquakeId), true))
+        continue
+      }
+      jobs.push(job)
+      publishItems.push(item)
+      
+      if (item.type === 'retracted') {
+        console.log(`  🪦 Retracting ${item.earthquakeId} (${item.reason})`)
+        console.log(`     Hex ID: ${job.dataStream.id}`)
+        continue
+      }
       
-      console.log(`  📍 M${quake.magnitude.toFixed(1)} - ${quake.location}`)
+      const { quake, type } = item
+      console.log(`  📍 M${quake.magnitude.toFixed(1)} - ${quake.location}${type === 'updated' ? ' (revision)' : ''}`)
       console.log(`     Time: ${new Date(quake.timestamp).toISOString()}`)
       console.log(`     ID: ${quake.earthquakeId}`)
+      console.log(`     Hex ID: ${job.dataStream.id}`)
+    }
+    
+    // Dry run: report what would be sent, priced at current fees, and stop before signing
+    if (dryRun) {
+      const { estimates, maxFeePerGas } = await estimatePublishGas(jobs, PUBLISHER_ADDRESS)
+      const estimatedGas = estimates.reduce((sum, estimate) => sum + (estimate.gas ?? BigInt(0)), BigInt(0))
       
-      // Prepare data stream (stores earthquake data)
-      const hexId = toHex(quake.earthquakeId, { size: 32 })
-      console.log(`     Hex ID: ${hexId}`)
-      
-      dataStreams.push({
-        id: hexId,
-        schemaId: EARTHQUAKE_SCHEMA_ID,
-        data: encodeEarthquake(quake)
-      })
+      console.log(`🧪 Dry run: ${jobs.length} transactions, ~${estimatedGas} gas (${formatEther(estimatedGas * maxFeePerGas)} STT)`)
       
-      // Prepare event stream (triggers WebSocket notifications)
-      eventStreams.push({
-        id: 'EarthquakeDetected',
-        argumentTopics: [
-          toHex(Math.floor(quake.magnitude * 10), { size: 32 })
-        ],
-        data: '0x' as `0x${string}`
+      return Response.json({
+        success: true,
+        dryRun,
+        newQuakes: newQuakes.length,
+        updatedQuakes: revisions.length,
+        retractedQuakes: retractions.length,
+        retried: retryItems.length,
+        deferred,
+        totalFetched,
+        sources: sourceSummary,
+        quarantined,
+        minMagnitude,
+        config: configSummary,
+        estimatedGas: estimatedGas.toString(),
+        maxFeePerGas: maxFeePerGas.toString(),
+        estimatedCost: `${formatEther(estimatedGas * maxFeePerGas)} STT`,
+        duration: Date.now() - startTime,
+        rejected: rejected.map(entry => ({ id: entry.earthquakeId, type: entry.item.type, error: entry.lastError })),
+        plan: publishItems.map((item, i) => ({
+          ...summarizeItem(item),
+          hexId: jobs[i].dataStream.id,
+          schemaId: jobs[i].dataStream.schemaId,
+          data: jobs[i].dataStream.data,
+          events: jobs[i].eventStreams.map(event => event.id),
+          topics: jobs[i].eventStreams[0].argumentTopics,
+          gas: estimates[i].gas?.toString(),
+          ...(estimates[i].error && { gasError: estimates[i].error })
+        }))
       })
     }
     
-    // Step 4: Publish to blockchain ONE AT A TIME
-    // Data Streams KV store pattern: Each unique ID should be written separately
-    // Batch writes seem to only persist the last item, so we write individually
-    console.log('📤 Publishing earthquakes to blockchain ONE AT A TIME...')
+    // Step 4: Publish concurrently with locally managed nonces
+    // Data Streams KV store pattern: each unique ID is still its own transaction, and its
+    // provenance record another (batch writes only persist the last item), but several are in flight at once
+    console.log(`📤 Publishing ${jobs.length} earthquakes to blockchain (${config.maxInFlight} in flight)...`)
+    
+    // Archive the raw source records first, so every hash that reaches the chain can be checked
+    await store.archiveSourceRecords(publishItems.flatMap(item => item.type !== 'retracted' && item.quake.sourceRecord ? [item.quake.sourceRecord] : []))
+    
+    const results = await publishConcurrently(jobs, {
+      maxInFlight: config.maxInFlight,
+      receiptTimeoutMs: config.receiptTimeoutMs
+    })
     
-    const publicClient = getPublicClient()
     const txHashes: string[] = []
+    const published: ProcessedEarthquake[] = []
+    const failures: FailedPublish[] = [...rejected]
+    const recovered: string[] = []
     
-    for (let i = 0; i < dataStreams.length; i++) {
-      try {
-        const eq = newQuakes[i]
-        console.log(`   📝 Publishing ${i + 1}/${dataStreams.length}: ${eq.id} (M${eq.properties.mag})`)
-        console.log(`      Data ID: ${dataStreams[i].id}`)
-        
-        const txHash = await sdk.streams.setAndEmitEvents(
-          [dataStreams[i]],  // Single earthquake
-          [eventStreams[i]]   // Single event
-        )
-        
-        console.log(`   ⏳ Waiting for confirmation: ${txHash}`)
-        
-        // CRITICAL: Wait for transaction to be mined before sending next one
-        // This prevents nonce conflicts and ensures all earthquakes are stored
-        const receipt = await publicClient.waitForTransactionReceipt({
-          hash: txHash as `0x${string}`,
-          timeout: 30_000 // 30 second timeout
-        })
-        
-        txHashes.push(txHash as string)
-        console.log(`   ✅ Confirmed ${i + 1}/${dataStreams.length} - Status: ${receipt.status}`)
-        
-      } catch (error) {
-        console.error(`   ❌ Failed to publish earthquake ${i + 1}:`, error)
-        // Continue with next earthquake even if one fails
+    results.forEach((result, i) => {
+      const item = publishItems[i]
+      
+      if (result.status !== 'confirmed') {
+        // Queue for a retry with backoff - dead-lettered once out of attempts
+        const failure = recordFailure(item, `${result.status}${result.error ? `: ${result.error}` : ''}`, Date.now(), queuedById.get(item.earthquakeId), false, toPendingPublish(result))
+        failures.push(failure)
+        console.error(`   ❌ Failed to publish ${result.key} (attempt ${failure.attempts}): ${failure.lastError}` +
+          (failure.deadLettered ? ' - dead-lettered' : ` - retrying after ${new Date(failure.nextAttemptAt!).toISOString()}`))
+        return
       }
-    }
+      
+      if (queuedById.has(item.earthquakeId)) recovered.push(item.earthquakeId)
+      if (result.provenanceError) console.warn(`   ⚠️  ${result.key}: published, but its provenance record was not (${result.provenanceError})`)
+      
+      const txHash = result.txHash!
+      txHashes.push(txHash)
+      published.push(...toProcessedRecords(item, txHash))
+    })
+    console.log(`✅ Successfully published ${txHashes.length}/${jobs.length} earthquakes!`)
     
-    console.log(`✅ Successfully published ${txHashes.length}/${dataStreams.length} earthquakes!`)
+    // Update tracking (remember every published ID and the most recent new earthquake)
+    // Advancing the cursor past failed quakes is safe: they wait in the retry queue
+    await store.markProcessed(published)
+    await store.saveFailed(failures)
+    await store.removeFailed(recovered)
+    const retryQueue = await store.listFailed()
     
-    // Update tracking (remember the most recent earthquake)
-    const mostRecent = newQuakes[newQuakes.length - 1]
-    lastProcessedId = mostRecent.id
-    lastProcessedTime = mostRecent.properties.time
+    if (includedNewQuakes.length > 0) {
+      const mostRecent = includedNewQuakes[includedNewQuakes.length - 1]
+      await store.setCursor({
+        lastProcessedId: mostRecent.earthquakeId,
+        lastProcessedTime: mostRecent.timestamp
+      })
+    }
     
     const duration = Date.now() - startTime
     console.log(`⏱️  Sync completed in ${duration}ms`)
@@ -189,16 +507,41 @@ export async function GET(request: NextRequest) {
     return Response.json({
       success: true,
       newQuakes: newQuakes.length,
+      updatedQuakes: revisions.length,
+      retractedQuakes: retractions.length,
       published: txHashes.length,
-      totalFetched: data.features.length,
-      minMagnitude: MIN_MAGNITUDE,
+      failed: failures.length,
+      retried: retryItems.length,
+      deferred,
+      retryQueue: {
+        queued: retryQueue.length,
+        deadLettered: retryQueue.filter(entry => entry.deadLettered).length
+      },
+      failures: failures.map(failure => ({
+        id: failure.earthquakeId,
+        type: failure.item.type,
+        attempts: failure.attempts,
+        error: failure.lastError,
+        deadLettered: failure.deadLettered,
+        nextAttemptAt: failure.nextAttemptAt ? new Date(failure.nextAttemptAt).toISOString() : null
+      })),
+      totalFetched,
+      sources: sourceSummary,
+      quarantined,
+      minMagnitude,
+      config: configSummary,
       txHashes,
       duration,
-      earthquakes: newQuakes.map(q => ({
-        id: q.id,
-        magnitude: q.properties.mag,
-        location: q.properties.place,
-        time: new Date(q.properties.time).toISOString()
+      earthquakes: publishItems.map((item, i) => ({
+        ...summarizeItem(item),
+        status: results[i].status,
+        retry: queuedById.has(item.earthquakeId),
+        txHash: results[i].txHash,
+        nonce: results[i].nonce,
+        attempts: results[i].attempts,
+        ...(results[i].provenanceTxHash && { provenanceTxHash: results[i].provenanceTxHash }),
+        ...(results[i].error && { error: results[i].error }),
+        ...(results[i].provenanceError && { provenanceError: results[i].provenanceError })
       }))
     })
     
@@ -209,10 +552,14 @@ export async function GET(request: NextRequest) {
       { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown error',
+        // An invalid config fails every run - list what to fix
+        ...(error instanceof OracleConfigError && { problems: error.problems }),
         duration: Date.now() - startTime
       },
       { status: 500 }
     )
+  } finally {
+    await releasePublishLock?.().catch(error => console.error('⚠️  Failed to release the publish lock:', error))
   }
 }
 
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { getEarthquakeIndex, INDEX_TTL_MS } from '@/lib/earthquake-index'
+import { EarthquakeQueryError, parseEarthquakeQuery, queryEarthquakes, toGeoJSONFeature } from '@/lib/earthquake-query'
+
+/**
+ * Public query API over the on-chain earthquakes
+ * 
+ * Served from a server-side index of decoded records (see lib/earthquake-index.ts),
+ * at most INDEX_TTL_MS behind the chain. Filters, sorting and paging are described
+ * in lib/earthquake-query.ts; `?format=geojson` returns a GeoJSON FeatureCollection.
+ * 
+ * Example: /api/earthquakes?minMagnitude=4.5&bbox=-125,32,-114,42&orderBy=magnitude&limit=20
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  
+  let query
+  try {
+    query = parseEarthquakeQuery(searchParams)
+  } catch (error) {
+    if (error instanceof EarthquakeQueryError) {
+      return Response.json({ error: 'Invalid query', problems: error.problems }, { status: 400 })
+    }
+    throw error
+  }
+  
+  try {
+    const index = await getEarthquakeIndex()
+    const { total, earthquakes } = queryEarthquakes(index.earthquakes, query)
+    const metadata = {
+      generated: Date.now(),
+      indexedAt: index.updatedAt,
+      total,
+      count: earthquakes.length,
+      limit: query.limit,
+      offset: query.offset
+    }
+    const headers = {
+      'Cache-Control': `public, s-maxage=${INDEX_TTL_MS / 1000}, stale-while-revalidate=${2 * INDEX_TTL_MS / 1000}`,
+      'Access-Control-Allow-Origin': '*'
+    }
+    
+    if (query.format === 'geojson') {
+      return new Response(JSON.stringify({
+        type: 'FeatureCollection',
+        metadata,
+        features: earthquakes.map(toGeoJSONFeature)
+      }), { headers: { ...headers, 'Content-Type': 'application/geo+json' } })
+    }
+    
+    return Response.json({ metadata, earthquakes }, { headers })
+    
+  } catch (error) {
+    console.error('❌ Earthquake query failed:', error)
+    
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
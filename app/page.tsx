@@ -4,7 +4,8 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import dynamic from 'next/dynamic'
 import { useEarthquakes } from '@/hooks/useEarthquakes'
 import { Timeline } from '@/components/Timeline'
-import { MAGNITUDE_COLORS, MAGNITUDE_THRESHOLDS } from '@/lib/constants'
+import { MAGNITUDE_COLORS, MAGNITUDE_THRESHOLDS, PAGER_ALERT_COLORS, PUBLISHER_ADDRESSES } from '@/lib/constants'
+import type { ConnectionState, ConnectionStatus } from '@/lib/connection-state'
 import type { Earthquake } from '@/types/earthquake'
 
 // Dynamically import map to avoid SSR issues with Leaflet
@@ -13,6 +14,19 @@ const EarthquakeMap = dynamic(
   { ssr: false, loading: () => <div className="h-full flex items-center justify-center">Loading map...</div> }
 )
 
+// Header indicator per connection status (anything but live may be missing recent quakes)
+const CONNECTION_INDICATOR: Record<ConnectionStatus, { label: string; dot: string; text: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-gray-400', text: 'text-gray-400' },
+  live: { label: 'Live', dot: 'bg-green-400 animate-pulse', text: 'text-green-400' },
+  reconnecting: { label: 'Stale - reconnecting', dot: 'bg-yellow-400', text: 'text-yellow-400' },
+  offline: { label: 'Stale - offline', dot: 'bg-red-500', text: 'text-red-400' }
+}
+
+function describeConnection({ status, lastEventAt, retryCount }: ConnectionState): string {
+  const lastEvent = lastEventAt ? `Last event ${new Date(lastEventAt).toLocaleTimeString()}` : 'No live events yet'
+  return status === 'reconnecting' ? `${lastEvent} • retry ${retryCount}` : lastEvent
+}
+
 // Helper to get magnitude color
 function getMagnitudeColor(magnitude: number): string {
   if (magnitude >= MAGNITUDE_THRESHOLDS.EXTREME) return MAGNITUDE_COLORS.EXTREME
@@ -29,7 +43,6 @@ export default function Home() {
   const [isPlaying, setIsPlaying] = useState(false)
   const [playbackSpeed, setPlaybackSpeed] = useState(10)
   const [newEarthquakeForPan, setNewEarthquakeForPan] = useState<Earthquake | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
   const [notificationsEnabled, setNotificationsEnabled] = useState(false)
   const [isMounted, setIsMounted] = useState(false)
   const [jumpToTime, setJumpToTime] = useState<number | null>(null)
@@ -82,40 +95,16 @@ export default function Home() {
     }
   }, [notificationsEnabled])
   
-  // Subscribe to earthquakes
-  const { fetchInitialQuakes } = useEarthquakes({
+  // Subscribe to earthquakes (the hook loads history itself, delivering it newest first as it arrives)
+  const { loadingProgress, clearCache, connection } = useEarthquakes({
     onNewEarthquake: handleNewEarthquake,
     onEarthquakesUpdate: handleEarthquakesUpdate,
     minMagnitude: 2.0
   })
   
-  // Load initial data
-  useEffect(() => {
-    console.log('🚀 Starting initial earthquake fetch...')
-    fetchInitialQuakes().then(quakes => {
-      console.log(`✅ Initial fetch complete: ${quakes.length} earthquakes loaded`)
-      if (quakes.length > 0) {
-        // Debug: Show timestamp info
-        const now = Date.now()
-        const timestamps = quakes.map(q => ({
-          id: q.earthquakeId.slice(0, 10),
-          mag: q.magnitude.toFixed(1),
-          location: q.location.slice(0, 30),
-          timestamp: q.timestamp,
-          hoursAgo: ((now - q.timestamp) / (1000 * 60 * 60)).toFixed(1)
-        }))
-        console.table(timestamps)
-        
-        const recentQuakes = quakes.filter(q => q.timestamp >= now - 24 * 60 * 60 * 1000)
-        console.log(`🕐 Earthquakes in last 24h: ${recentQuakes.length}`)
-      }
-      setEarthquakes(quakes)
-      setIsLoading(false)
-    }).catch(err => {
-      console.error('❌ Initial fetch failed:', err)
-      setIsLoading(false)
-    })
-  }, [fetchInitialQuakes])
+  // Show the map as soon as the first earthquakes arrive
+  const isLoading = earthquakes.length === 0 && !loadingProgress.done
+  const loadingPercent = loadingProgress.total > 0 ? Math.round(loadingProgress.loaded / loadingProgress.total * 100) : 0
   
   // Handle timeline changes
   const handleTimeRangeChange = useCallback((start: number, end: number) => {
@@ -150,8 +139,11 @@ export default function Home() {
     }
   }
   
+  // Retracted quakes stay on the map (greyed out) but are left out of stats and lists
+  const activeQuakes = earthquakes.filter(q => !q.retracted)
+  
   // Calculate stats
-  const visibleQuakes = earthquakes.filter(q => 
+  const visibleQuakes = activeQuakes.filter(q => 
     q.timestamp >= timeRangeStart && 
     q.timestamp <= timeRangeEnd
   )
@@ -159,17 +151,17 @@ export default function Home() {
   // Recent Activity always shows earthquakes relative to "now", not scrubber position
   const now = Date.now()
   const activityWindow = 24 * 60 * 60 * 1000 // Always show last 24 hours in activity list
-  const recentActivityQuakes = earthquakes.filter(q => 
+  const recentActivityQuakes = activeQuakes.filter(q => 
     q.timestamp >= (now - activityWindow) && 
     q.timestamp <= now
   )
   
-  const maxMagnitude = earthquakes.length > 0
-    ? Math.max(...earthquakes.map(q => q.magnitude))
+  const maxMagnitude = activeQuakes.length > 0
+    ? Math.max(...activeQuakes.map(q => q.magnitude))
     : 0
   
-  const avgMagnitude = earthquakes.length > 0
-    ? earthquakes.reduce((sum, q) => sum + q.magnitude, 0) / earthquakes.length
+  const avgMagnitude = activeQuakes.length > 0
+    ? activeQuakes.reduce((sum, q) => sum + q.magnitude, 0) / activeQuakes.length
     : 0
   
   return (
@@ -184,6 +176,34 @@ export default function Home() {
             <p className="text-sm sm:text-base text-gray-400">
               Powered by Somnia Data Streams • Data from USGS
             </p>
+            {isMounted && (
+              <div
+                className={`mt-1 flex items-center gap-2 text-xs ${CONNECTION_INDICATOR[connection.status].text}`}
+                title={describeConnection(connection)}
+              >
+                <span className={`w-2 h-2 rounded-full ${CONNECTION_INDICATOR[connection.status].dot}`} />
+                {CONNECTION_INDICATOR[connection.status].label}
+                <span className="text-gray-500">{describeConnection(connection)}</span>
+              </div>
+            )}
+            {/* History still loading behind the first results */}
+            {isMounted && !isLoading && !loadingProgress.done && loadingProgress.total > 0 && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                <div className="w-32 h-1 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-500 transition-all" style={{ width: `${loadingPercent}%` }} />
+                </div>
+                Loading history {loadingPercent}%
+              </div>
+            )}
+            {isMounted && loadingProgress.done && (
+              <button
+                onClick={clearCache}
+                className="mt-1 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                title="Forget the earthquakes cached in this browser and reload them from chain"
+              >
+                🗑️ Clear cache
+              </button>
+            )}
           </div>
           
           {/* Notification toggle - only render on client */}
@@ -207,7 +227,7 @@ export default function Home() {
       {/* Stats bar */}
       <div className="max-w-[1800px] mx-auto mb-6 grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
         <div className="glass-strong rounded-lg p-3 sm:p-4 text-center">
-          <div className="text-2xl sm:text-3xl font-bold">{earthquakes.length}</div>
+          <div className="text-2xl sm:text-3xl font-bold">{activeQuakes.length}</div>
           <div className="text-xs sm:text-sm text-gray-400">Total Earthquakes</div>
         </div>
         
@@ -236,6 +256,9 @@ export default function Home() {
               <div className="text-center">
                 <div className="animate-pulse text-6xl mb-4">📊</div>
                 <p className="text-xl">Loading earthquake data...</p>
+                {loadingProgress.total > 0 && (
+                  <p className="text-sm text-gray-400 mt-2">{loadingProgress.loaded} / {loadingProgress.total} records</p>
+                )}
               </div>
             </div>
           ) : (
@@ -253,7 +276,7 @@ export default function Home() {
         <div className="flex flex-col gap-6 lg:h-full lg:overflow-hidden">
           {/* Timeline controls */}
           <Timeline
-            earthquakes={earthquakes}
+            earthquakes={activeQuakes}
             onTimeRangeChange={handleTimeRangeChange}
             isPlaying={isPlaying}
             onPlayPauseToggle={handlePlayPauseToggle}
@@ -296,6 +319,33 @@ export default function Home() {
                             NEW
                           </span>
                         )}
+                        {quake.alert && (
+                          <span
+                            className="px-2 py-0.5 text-white text-xs font-bold rounded"
+                            style={{ backgroundColor: PAGER_ALERT_COLORS[quake.alert] }}
+                            title="USGS PAGER alert level"
+                          >
+                            {quake.alert.toUpperCase()}
+                          </span>
+                        )}
+                        {quake.tsunami && (
+                          <span className="px-2 py-0.5 bg-blue-600 text-white text-xs font-bold rounded" title="Tsunami warning center assessment">
+                            🌊 TSUNAMI
+                          </span>
+                        )}
+                        {quake.disagreements && (
+                          <span
+                            className="px-2 py-0.5 bg-amber-600 text-white text-xs font-bold rounded"
+                            title={`Oracles disagree on ${quake.disagreements.join(' and ')}`}
+                          >
+                            ⚠️ DISPUTED
+                          </span>
+                        )}
+                        {PUBLISHER_ADDRESSES.length > 1 && quake.attestations && (
+                          <span className="text-xs text-gray-400" title="Oracles that published this earthquake">
+                            🛡️ {quake.attestations.length}/{PUBLISHER_ADDRESSES.length}
+                          </span>
+                        )}
                       </div>
                       <span className="text-xs text-gray-400">
                         {new Date(quake.timestamp).toLocaleTimeString()}
@@ -303,7 +353,11 @@ export default function Home() {
                     </div>
                     <p className="text-sm text-gray-300">{quake.location}</p>
                     <p className="text-xs text-gray-500 mt-1">
-                      Depth: {quake.depth.toFixed(1)} km • Click to view
+                      Depth: {quake.depth.toFixed(1)} km
+                      {quake.magType && ` • ${quake.magType}`}
+                      {quake.status && ` • ${quake.status === 'reviewed' ? 'Reviewed' : 'Automatic'}`}
+                      {quake.felt !== undefined && ` • Felt by ${quake.felt.toLocaleString()}`}
+                      {' • Click to view'}
                     </p>
                   </button>
                 )
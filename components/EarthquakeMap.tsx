@@ -4,7 +4,7 @@ import { useEffect, useState, useRef } from 'react'
 import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet'
 import 'leaflet/dist/leaflet.css'
 import type { Earthquake } from '@/types/earthquake'
-import { MAGNITUDE_COLORS, MAGNITUDE_THRESHOLDS } from '@/lib/constants'
+import { MAGNITUDE_COLORS, MAGNITUDE_THRESHOLDS, PAGER_ALERT_COLORS, PUBLISHER_ADDRESSES } from '@/lib/constants'
 
 interface EarthquakeMapProps {
   earthquakes: Earthquake[]
@@ -103,7 +103,8 @@ function PulsingMarker({ earthquake, currentTime }: { earthquake: Earthquake; cu
   // Coordinates are already decoded (divided by 1_000_000) in the hook
   const lat = earthquake.latitude
   const lng = earthquake.longitude
-  const color = getMagnitudeColor(earthquake.magnitude)
+  // Retracted by the source: keep the marker for context, but greyed out and dashed
+  const color = earthquake.retracted ? '#6b7280' : getMagnitudeColor(earthquake.magnitude)
   const radius = Math.max(5, earthquake.magnitude * 3) // Visual radius in pixels
   
   // Calculate age of earthquake relative to current viewing position
@@ -126,7 +127,8 @@ function PulsingMarker({ earthquake, currentTime }: { earthquake: Earthquake; cu
         fillOpacity: baseFillOpacity * fadeOpacity,
         color: color,
         weight: pulse ? 3 : 1,
-        opacity: baseStrokeOpacity * fadeOpacity
+        opacity: baseStrokeOpacity * fadeOpacity,
+        dashArray: earthquake.retracted ? '4 4' : undefined
       }}
       className={pulse ? 'animate-pulse' : ''}
     >
@@ -134,8 +136,51 @@ function PulsingMarker({ earthquake, currentTime }: { earthquake: Earthquake; cu
         <div className="text-gray-900">
           <h3 className="font-bold text-lg mb-2">
             M{earthquake.magnitude.toFixed(1)} Earthquake
+            {earthquake.magType && (
+              <span className="ml-1 text-sm font-normal text-gray-500">({earthquake.magType})</span>
+            )}
           </h3>
           
+          {earthquake.retracted && (
+            <p className="mb-2 text-sm font-semibold text-gray-500">
+              Retracted by source - this event was deleted
+            </p>
+          )}
+          
+          {earthquake.disagreements && (
+            <p className="mb-2 text-sm font-semibold text-amber-600">
+              ⚠️ Oracles disagree on {earthquake.disagreements.join(' and ')}
+            </p>
+          )}
+          
+          {(earthquake.alert || earthquake.tsunami) && (
+            <div className="mb-2 flex flex-wrap gap-1 text-xs font-semibold">
+              {earthquake.alert && (
+                <span className="px-2 py-0.5 rounded text-white" style={{ backgroundColor: PAGER_ALERT_COLORS[earthquake.alert] }}>
+                  PAGER {earthquake.alert.toUpperCase()}
+                </span>
+              )}
+              {earthquake.tsunami && (
+                <span className="px-2 py-0.5 rounded bg-blue-600 text-white">
+                  Tsunami assessment
+                </span>
+              )}
+            </div>
+          )}
+          
+          {PUBLISHER_ADDRESSES.length > 1 && earthquake.attestations && (
+            <div className="mb-2 text-xs text-gray-500">
+              <p className="font-semibold">
+                🛡️ Published by {earthquake.attestations.length} of {PUBLISHER_ADDRESSES.length} oracles
+              </p>
+              {earthquake.attestations.map(attestation => (
+                <p key={attestation.publisher} className={attestation.retracted ? 'line-through' : undefined}>
+                  {attestation.publisher.slice(0, 6)}…{attestation.publisher.slice(-4)}: M{attestation.magnitude.toFixed(1)} at {attestation.latitude.toFixed(2)}, {attestation.longitude.toFixed(2)}
+                </p>
+              ))}
+            </div>
+          )}
+          
           <div className="space-y-1 text-sm">
             <p>
               <span className="font-semibold">Location:</span><br />
@@ -155,6 +200,37 @@ function PulsingMarker({ earthquake, currentTime }: { earthquake: Earthquake; cu
               <span className="font-semibold">Coordinates:</span><br />
               {lat.toFixed(4)}°, {lng.toFixed(4)}°
             </p>
+            
+            {earthquake.status && (
+              <p>
+                <span className="font-semibold">Status:</span> {earthquake.status === 'reviewed' ? 'Reviewed' : 'Automatic'}
+                {earthquake.updated && (
+                  <span className="text-gray-500"> (updated {new Date(earthquake.updated).toLocaleString()})</span>
+                )}
+              </p>
+            )}
+            
+            {earthquake.felt !== undefined && (
+              <p>
+                <span className="font-semibold">Felt reports:</span> {earthquake.felt.toLocaleString()}
+              </p>
+            )}
+            
+            {(earthquake.cdi !== undefined || earthquake.mmi !== undefined) && (
+              <p>
+                <span className="font-semibold">Intensity:</span>{' '}
+                {[
+                  earthquake.mmi !== undefined && `MMI ${earthquake.mmi.toFixed(1)}`,
+                  earthquake.cdi !== undefined && `CDI ${earthquake.cdi.toFixed(1)}`
+                ].filter(Boolean).join(' • ')}
+              </p>
+            )}
+            
+            {earthquake.sig !== undefined && (
+              <p>
+                <span className="font-semibold">Significance:</span> {earthquake.sig}
+              </p>
+            )}
           </div>
           
           <a
@@ -0,0 +1,22 @@
+/**
+ * Next.js startup hook: validate the oracle config before the first cron run
+ * so a bad config file, ORACLE_* override or EARTHQUAKE_SOURCES entry shows up
+ * in the deploy logs. A deployment that runs the oracle (CRON_SECRET or
+ * ORACLE_PRIVATE_KEY set) refuses to start with an invalid config; one that
+ * only serves the dashboard just logs it.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { getOracleConfig } = await import('@/lib/oracle-config')
+  const { createSourcesFromEnv } = await import('@/lib/sources')
+  const runsOracle = Boolean(process.env.CRON_SECRET || process.env.ORACLE_PRIVATE_KEY)
+  try {
+    const { config, file, overrides } = getOracleConfig()
+    const sources = createSourcesFromEnv()
+    console.log(`⚙️  Oracle config "${config.name}" loaded from ${file ?? 'defaults'}${overrides.length > 0 ? ` + ${overrides.join(', ')}` : ''}, sources: ${sources.map(source => source.name).join(', ')}`)
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    if (runsOracle) throw error
+  }
+}
@@ -0,0 +1,34 @@
+import { RECONNECT } from './constants'
+
+/**
+ * Live subscription status, as exposed by useEarthquakes
+ *
+ * - connecting: loading history / first subscription attempt
+ * - live: subscribed, events arrive as they are published
+ * - reconnecting: the socket dropped or subscribing failed, a retry is scheduled
+ * - offline: the browser reports no network; reconnects once it is back
+ */
+
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'offline'
+
+export interface ConnectionState {
+  status: ConnectionStatus
+  lastEventAt: number | null     // When the last live event arrived, Unix timestamp in ms
+  retryCount: number             // Reconnect attempts since the connection was last live
+}
+
+export const INITIAL_CONNECTION_STATE: ConnectionState = {
+  status: 'connecting',
+  lastEventAt: null,
+  retryCount: 0
+}
+
+/**
+ * Delay before reconnect attempt `retryCount` (0-based)
+ * The ceiling doubles per attempt up to RECONNECT.MAX_DELAY_MS; the delay is drawn
+ * from its upper half, so tabs and clients that dropped together spread out.
+ */
+export function getReconnectDelay(retryCount: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RECONNECT.BASE_DELAY_MS * 2 ** retryCount, RECONNECT.MAX_DELAY_MS)
+  return Math.round(ceiling / 2 + random() * ceiling / 2)
+}
@@ -1,7 +1,54 @@
 export const EARTHQUAKE_SCHEMA = `string earthquakeId, string location, uint16 magnitude, uint32 depth, int32 latitude, int32 longitude, uint64 timestamp, string url` as const
 
+// v2 adds the source's magnitude type, review status, tsunami flag, PAGER alert level, felt reports,
+// intensities (× 10), significance and last revision time. Empty string / 0 mean "not reported".
+export const EARTHQUAKE_SCHEMA_V2 = `string earthquakeId, string location, uint16 magnitude, uint32 depth, int32 latitude, int32 longitude, uint64 timestamp, string url, string magType, string status, bool tsunami, string alert, uint32 felt, uint16 cdi, uint16 mmi, uint16 sig, uint64 updated` as const
+
+// v3 is v2 with a signed depth, for events above sea level (USGS reports these as negative depths)
+export const EARTHQUAKE_SCHEMA_V3 = `string earthquakeId, string location, uint16 magnitude, int32 depth, int32 latitude, int32 longitude, uint64 timestamp, string url, string magType, string status, bool tsunami, string alert, uint32 felt, uint16 cdi, uint16 mmi, uint16 sig, uint64 updated` as const
+
+// Tombstones for earthquakes the source deleted after we published them (separate schema, same data IDs)
+export const RETRACTION_SCHEMA = `string earthquakeId, uint64 retractedAt, string reason` as const
+
+// Hash of the raw source record behind each published earthquake (separate schema, same data IDs)
+export const PROVENANCE_SCHEMA = `string earthquakeId, bytes32 sourceHash, string source, string format, uint64 fetchedAt` as const
+
+// Event stream IDs emitted by the oracle alongside each data write
+// (V2: registered event schemas are immutable, so adding topics needed new IDs)
+export const EARTHQUAKE_EVENTS = {
+  DETECTED: 'EarthquakeDetectedV2',     // First publication of an earthquake
+  UPDATED: 'EarthquakeUpdatedV2',       // Source revised a published earthquake (same data ID, corrected values)
+  RETRACTED: 'EarthquakeRetractedV2',   // Source deleted a published earthquake (tombstone in the retraction schema)
+  // Emitted in the same transaction as Detected/Updated, for consumers that only want these
+  SIGNIFICANT: 'EarthquakeSignificant', // Magnitude at or above MAGNITUDE_THRESHOLDS.STRONG
+  PAGER_ALERT: 'EarthquakePagerAlert',  // PAGER alert level orange or red
+  TSUNAMI: 'EarthquakeTsunami'          // Flagged for tsunami warning center assessment
+} as const
+
+// Indexed arguments of every earthquake event, in topic order (the EVM allows three)
+export const EARTHQUAKE_EVENT_PARAMS = [
+  { name: 'magnitude', paramType: 'uint16', isIndexed: true },  // Magnitude × 10
+  { name: 'region', paramType: 'bytes32', isIndexed: true },    // Geohash cell of the epicentre
+  { name: 'band', paramType: 'uint8', isIndexed: true }         // Whole-magnitude band (M4.0-4.9 → 4)
+] as const
+
+// Geohash length of the region topic: 2 characters ≈ 11.25° × 5.6° cells
+export const REGION_TOPIC_PRECISION = 2
+
 export const EARTHQUAKE_SCHEMA_ID = process.env.NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID as `0x${string}`
+// Optional - once registered the oracle publishes the newest version; older records stay readable
+export const EARTHQUAKE_SCHEMA_V2_ID = process.env.NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V2_ID as `0x${string}` | undefined
+export const EARTHQUAKE_SCHEMA_V3_ID = process.env.NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V3_ID as `0x${string}` | undefined
+// Optional - retraction handling is disabled until the retraction schema is registered
+export const RETRACTION_SCHEMA_ID = process.env.NEXT_PUBLIC_RETRACTION_SCHEMA_ID as `0x${string}` | undefined
+// Optional - source hashes are only published once the provenance schema is registered
+export const PROVENANCE_SCHEMA_ID = process.env.NEXT_PUBLIC_PROVENANCE_SCHEMA_ID as `0x${string}` | undefined
 export const PUBLISHER_ADDRESS = process.env.NEXT_PUBLIC_PUBLISHER_ADDRESS as `0x${string}`
+// Oracles the dashboard reads from, highest priority first (comma separated; defaults to PUBLISHER_ADDRESS)
+export const PUBLISHER_ADDRESSES = (process.env.NEXT_PUBLIC_PUBLISHER_ADDRESSES || PUBLISHER_ADDRESS || '')
+  .split(',')
+  .map(address => address.trim())
+  .filter(Boolean) as `0x${string}`[]
 
 // Magnitude thresholds for notifications
 export const MAGNITUDE_THRESHOLDS = {
@@ -12,6 +59,45 @@ export const MAGNITUDE_THRESHOLDS = {
   EXTREME: 9.0     // Apocalyptic notify (extremely rare!)
 } as const
 
+// Smallest source revisions worth republishing (below these the on-chain record is unchanged)
+export const REVISION_THRESHOLDS = {
+  MAGNITUDE: 0.1,        // On-chain magnitude precision
+  DEPTH_KM: 0.5,
+  EPICENTRE_KM: 1.0,
+  ORIGIN_TIME_MS: 1000
+} as const
+
+// Largest differences between oracles' records of the same earthquake before they are flagged
+export const AGREEMENT_TOLERANCE = {
+  MAGNITUDE: 0.3,
+  EPICENTRE_KM: 25
+} as const
+
+// How long a published earthquake must be missing from a complete source feed before it is retracted
+// (rides out feed glitches and events briefly dropped between USGS feed rebuilds)
+export const RETRACTION_GRACE_MS = 10 * 60 * 1000
+
+// Retry policy for failed publishes: exponential backoff, then the dead-letter queue
+export const PUBLISH_RETRY = {
+  MAX_ATTEMPTS: 5,             // Failed attempts before an item is dead-lettered
+  BASE_DELAY_MS: 60 * 1000,    // Delay after the first failure, doubled for each one after
+  MAX_DELAY_MS: 60 * 60 * 1000
+} as const
+
+// Live subscription reconnects: exponential backoff with jitter, reset once connected
+export const RECONNECT = {
+  BASE_DELAY_MS: 1000,         // Delay ceiling for the first retry, doubled for each one after
+  MAX_DELAY_MS: 60 * 1000
+} as const
+
+// USGS PAGER alert level colors
+export const PAGER_ALERT_COLORS = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  orange: '#f97316',
+  red: '#dc2626'
+} as const
+
 // Magnitude colors for visualization
 export const MAGNITUDE_COLORS = {
   MINOR: '#4ade80',      // Green
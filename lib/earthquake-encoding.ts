@@ -1,16 +1,12 @@
-import { SchemaEncoder } from '@somnia-chain/streams'
-import { decodeAbiParameters } from 'viem'
-import { EARTHQUAKE_SCHEMA } from './constants'
-import type { Earthquake, USGSEarthquake } from '@/types/earthquake'
-
-// SchemaEncoder for encoding data to blockchain
-const encoder = new SchemaEncoder(EARTHQUAKE_SCHEMA)
+import { getEarthquakeCodecByVersion, isPagerAlert, isReviewStatus, RETRACTION_CODEC, type EncodedRecord } from './schema-codecs'
+import type { Earthquake, EarthquakeRetraction, USGSEarthquake } from '@/types/earthquake'
 
 /**
  * Convert USGS earthquake to our schema format
  */
 export function transformUSGSToSchema(usgsQuake: USGSEarthquake): Earthquake {
   const [lon, lat, depthKm] = usgsQuake.geometry.coordinates
+  const { magType, status, tsunami, alert, felt, cdi, mmi, sig } = usgsQuake.properties
   
   return {
     earthquakeId: usgsQuake.id,
@@ -20,55 +16,47 @@ export function transformUSGSToSchema(usgsQuake: USGSEarthquake): Earthquake {
     latitude: lat,
     longitude: lon,
     timestamp: usgsQuake.properties.time,
-    url: usgsQuake.properties.url
+    url: usgsQuake.properties.url,
+    updated: usgsQuake.properties.updated,
+    ...(status === 'deleted' && { retracted: true }),
+    ...(magType && { magType }),
+    ...(isReviewStatus(status) && { status }),
+    ...(tsunami !== undefined && { tsunami: tsunami === 1 }),
+    ...(isPagerAlert(alert) && { alert }),
+    ...(felt != null && { felt }),
+    ...(cdi != null && { cdi }),
+    ...(mmi != null && { mmi }),
+    ...(sig !== undefined && { sig })
   }
 }
 
 /**
  * Encode earthquake data for blockchain storage
+ * Shorthand for the schema version's codec (see lib/schema-codecs.ts).
  */
-export function encodeEarthquake(quake: Earthquake): `0x${string}` {
-  return encoder.encodeData([
-    { name: 'earthquakeId', value: quake.earthquakeId, type: 'string' },
-    { name: 'location', value: quake.location, type: 'string' },
-    { name: 'magnitude', value: Math.floor(quake.magnitude * 10).toString(), type: 'uint16' },
-    { name: 'depth', value: Math.floor(quake.depth * 1000).toString(), type: 'uint32' },
-    { name: 'latitude', value: Math.floor(quake.latitude * 1000000).toString(), type: 'int32' },
-    { name: 'longitude', value: Math.floor(quake.longitude * 1000000).toString(), type: 'int32' },
-    { name: 'timestamp', value: quake.timestamp.toString(), type: 'uint64' },
-    { name: 'url', value: quake.url, type: 'string' }
-  ])
+export function encodeEarthquake(quake: Earthquake, version = 1): `0x${string}` {
+  return getEarthquakeCodecByVersion(version).encode(quake)
 }
 
 /**
- * Decode blockchain data back to earthquake
- * Uses viem's decodeAbiParameters for universal compatibility
+ * Decode blockchain data (hex or SDK-decoded) back to earthquake
  */
-export function decodeEarthquake(data: `0x${string}`): Earthquake {
-  const [earthquakeId, location, magnitude, depth, latitude, longitude, timestamp, url] = decodeAbiParameters(
-    [
-      { name: 'earthquakeId', type: 'string' },
-      { name: 'location', type: 'string' },
-      { name: 'magnitude', type: 'uint16' },
-      { name: 'depth', type: 'uint32' },
-      { name: 'latitude', type: 'int32' },
-      { name: 'longitude', type: 'int32' },
-      { name: 'timestamp', type: 'uint64' },
-      { name: 'url', type: 'string' }
-    ],
-    data
-  )
-  
-  return {
-    earthquakeId: earthquakeId as string,
-    location: location as string,
-    magnitude: Number(magnitude) / 10,
-    depth: Number(depth) / 1000,
-    latitude: Number(latitude) / 1000000,
-    longitude: Number(longitude) / 1000000,
-    timestamp: Number(timestamp),
-    url: url as string
-  }
+export function decodeEarthquake(data: EncodedRecord, version = 1): Earthquake {
+  return getEarthquakeCodecByVersion(version).decode(data)
+}
+
+/**
+ * Encode a retraction tombstone for blockchain storage
+ */
+export function encodeRetraction(retraction: EarthquakeRetraction): `0x${string}` {
+  return RETRACTION_CODEC.encode(retraction)
+}
+
+/**
+ * Decode a retraction tombstone
+ */
+export function decodeRetraction(data: EncodedRecord): EarthquakeRetraction {
+  return RETRACTION_CODEC.decode(data)
 }
 
 /**
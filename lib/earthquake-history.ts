@@ -0,0 +1,230 @@
+import type { SDK } from '@somnia-chain/streams'
+import type { Hex } from 'viem'
+import { PUBLISHER_ADDRESSES } from './constants'
+import { matchesEarthquakeFilter, type EarthquakeFilter } from './event-topics'
+import { withAttestation } from './publisher-agreement'
+import { ACTIVE_EARTHQUAKE_CODECS, RETRACTION_CODEC, type EncodedRecord, type SchemaCodec } from './schema-codecs'
+import type { CachedRecord, HistoryCache } from './history-cache'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * Historical earthquake loading
+ *
+ * Every oracle's records are read in index ranges (getBetweenRange) with a
+ * bounded number of requests in flight, newest first: the newest schema version
+ * and the highest indexes go first, so recent quakes appear within the first
+ * few requests. Retraction tombstones are read before anything else. The merged
+ * list is delivered after every range, so the page fills in as it loads. With a
+ * cache (lib/history-cache.ts) only the indexes it does not hold are read.
+ */
+
+export interface HistoryProgress {
+  loaded: number                 // Records read so far (cached ones included), across every schema and oracle
+  total: number                  // Records to read
+  done: boolean
+}
+
+export interface StreamTotal {
+  schemaId: Hex
+  publisher: `0x${string}`
+  total: number                  // Records on chain when the load started
+}
+
+export interface HistoryOptions {
+  sdk: SDK                       // HTTP transport - this is many small reads
+  publishers?: readonly `0x${string}`[]
+  filter?: EarthquakeFilter
+  pageSize?: number              // Records per getBetweenRange call
+  concurrency?: number           // Calls in flight at once
+  signal?: AbortSignal           // Stops scheduling ranges (the returned list is partial)
+  cache?: HistoryCache | null    // Decoded records by index; new reads are written back
+  onProgress?: (earthquakes: Earthquake[], progress: HistoryProgress) => void
+  onTotals?: (totals: StreamTotal[]) => void  // Counts the load reads up to (streams whose count failed are left out)
+}
+
+const DEFAULT_PAGE_SIZE = 100
+const DEFAULT_CONCURRENCY = 4
+
+interface RangeRead {
+  stream: number                 // Index into the streams being read
+  start: number
+  end: number                    // Exclusive
+  priority: number[]             // Lower sorts first
+}
+
+/**
+ * One index range of a publisher's records under a schema (undefined where a record is missing)
+ * Falls back to one read per index when the range call fails, e.g. on a response size limit.
+ */
+export async function readRecordRange(sdk: SDK, schemaId: Hex, publisher: `0x${string}`, start: number, end: number): Promise<Array<EncodedRecord | undefined>> {
+  const data = await sdk.streams.getBetweenRange(schemaId, publisher, BigInt(start), BigInt(end)).catch(error => error as Error)
+  if (Array.isArray(data)) return data as EncodedRecord[]
+
+  console.warn(`⚠️  Range ${start}-${end} of ${schemaId} failed, reading it index by index:`, data)
+  const records: Array<EncodedRecord | undefined> = []
+  for (let i = start; i < end; i++) {
+    const record = await sdk.streams.getAtIndex(schemaId, publisher, BigInt(i)).catch(() => null)
+    records.push(Array.isArray(record) && record.length > 0 ? record[0] as EncodedRecord : undefined)
+  }
+  return records
+}
+
+/**
+ * Split the indexes of [0, total) missing from the cache into ranges, highest indexes first
+ */
+function newestFirstRanges(total: number, cached: ReadonlyMap<number, unknown>, pageSize: number): Array<{ start: number; end: number; page: number }> {
+  const ranges: Array<{ start: number; end: number; page: number }> = []
+  for (let index = total - 1; index >= 0; index--) {
+    if (cached.has(index)) continue
+    const current = ranges[ranges.length - 1]
+    if (current && current.start === index + 1 && current.end - current.start < pageSize) current.start = index
+    else ranges.push({ start: index, end: index + 1, page: ranges.length })
+  }
+  return ranges
+}
+
+/**
+ * Load every configured oracle's earthquakes, merged by ID and filtered, newest first
+ */
+export async function loadEarthquakeHistory({
+  sdk,
+  publishers = PUBLISHER_ADDRESSES,
+  filter = {},
+  pageSize = DEFAULT_PAGE_SIZE,
+  concurrency = DEFAULT_CONCURRENCY,
+  signal,
+  cache,
+  onProgress,
+  onTotals
+}: HistoryOptions): Promise<Earthquake[]> {
+  // Per publisher, the latest record of each ID: a newer schema version, then a higher index, wins
+  const records = new Map(publishers.map(publisher => [publisher, new Map<string, { quake: Earthquake; rank: [number, number] }>()]))
+  const retracted = new Map(publishers.map(publisher => [publisher, new Set<string>()]))
+
+  // A codec-less stream holds retraction tombstones
+  const streams: Array<{ publisher: `0x${string}`; schemaId: Hex; codec?: SchemaCodec<Earthquake> }> = [
+    ...(RETRACTION_CODEC.schemaId ? publishers.map(publisher => ({ publisher, schemaId: RETRACTION_CODEC.schemaId! })) : []),
+    ...publishers.flatMap(publisher => ACTIVE_EARTHQUAKE_CODECS.map(codec => ({ publisher, schemaId: codec.schemaId!, codec })))
+  ]
+  const describe = ({ codec }: { codec?: SchemaCodec<Earthquake> }) => codec ? `v${codec.version} earthquake` : 'retraction'
+
+  const [totals, cached] = await Promise.all([
+    Promise.all(streams.map(stream =>
+      sdk.streams.totalPublisherDataForSchema(stream.schemaId, stream.publisher)
+        .then(total => Number(total ?? BigInt(0)))
+        .catch(error => {
+          // Unknown rather than 0, so a failed count never discards the cache
+          console.warn(`Failed to count ${describe(stream)} records from ${stream.publisher}:`, error)
+          return undefined
+        })
+    )),
+    cache
+      ? cache.retain(streams).then(() => Promise.all(streams.map(stream => cache.read(stream)))).catch(error => {
+        console.warn('⚠️  Failed to read the history cache:', error)
+        return streams.map(() => new Map<number, CachedRecord>())
+      })
+      : streams.map(() => new Map<number, CachedRecord>())
+  ])
+
+  onTotals?.(streams.flatMap(({ schemaId, publisher }, i) => totals[i] !== undefined ? [{ schemaId, publisher, total: totals[i]! }] : []))
+
+  const decode = (stream: typeof streams[number], record: EncodedRecord, index: number): CachedRecord => {
+    if (record === '0x') return null
+    try {
+      // SDK can return decoded data (SchemaDecodedItem[][]) or hex strings (Hex[]) - the codec takes either
+      return stream.codec ? stream.codec.decode(record) : RETRACTION_CODEC.decode(record)
+    } catch (error) {
+      console.warn(`Failed to process ${describe(stream)} at index ${index}:`, error)
+      return null
+    }
+  }
+
+  const apply = ({ publisher, codec }: typeof streams[number], record: CachedRecord, index: number) => {
+    if (!record) return
+    if (!codec) {
+      if (record.earthquakeId) retracted.get(publisher)!.add(record.earthquakeId)
+      return
+    }
+
+    const quake = record as Earthquake
+    const latest = records.get(publisher)!.get(quake.earthquakeId)
+    if (!latest || latest.rank[0] < codec.version || (latest.rank[0] === codec.version && latest.rank[1] < index)) {
+      records.get(publisher)!.set(quake.earthquakeId, { quake, rank: [codec.version, index] })
+    }
+  }
+
+  const reads: RangeRead[] = streams.flatMap((stream, i) => {
+    // More records cached than on chain: the chain was redeployed or the network changed
+    const total = totals[i]
+    if (total !== undefined && [...cached[i].keys()].some(index => index >= total)) {
+      console.warn(`⚠️  Cached ${describe(stream)} records from ${stream.publisher} are ahead of the chain, discarding them`)
+      cached[i] = new Map()
+      cache?.drop(stream).catch(error => console.warn('⚠️  Failed to drop cached records:', error))
+    }
+
+    if (total) {
+      console.log(`📊 Found ${total} ${describe(stream)} records on-chain from ${stream.publisher} (${cached[i].size} cached)`)
+    }
+    cached[i].forEach((record, index) => apply(stream, record, index))
+
+    return newestFirstRanges(total ?? 0, cached[i], pageSize).map(({ start, end, page }) => ({
+      stream: i,
+      start,
+      end,
+      // Tombstones first, then the newest schema version, newest page, highest-priority publisher
+      priority: [stream.codec ? 1 : 0, -(stream.codec?.version ?? 0), page, publishers.indexOf(stream.publisher)]
+    }))
+  }).sort((a, b) => {
+    const difference = a.priority.findIndex((value, i) => value !== b.priority[i])
+    return difference < 0 ? 0 : a.priority[difference] - b.priority[difference]
+  })
+
+  // Every configured oracle's records, merged by earthquake ID (see lib/publisher-agreement.ts)
+  const mergeRecords = (): Earthquake[] => {
+    const merged = new Map<string, Earthquake>()
+    for (const publisher of publishers) {
+      for (const [id, { quake }] of records.get(publisher)!) {
+        merged.set(id, withAttestation(merged.get(id), retracted.get(publisher)!.has(id) ? { ...quake, retracted: true } : quake, publisher, publishers))
+      }
+    }
+    return [...merged.values()]
+      .filter(quake => matchesEarthquakeFilter(quake, filter))
+      .sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  const progress: HistoryProgress = {
+    loaded: cached.reduce((sum, records) => sum + records.size, 0),
+    total: totals.reduce<number>((sum, total, i) => sum + (total ?? cached[i].size), 0),
+    done: false
+  }
+  onProgress?.(progress.loaded > 0 ? mergeRecords() : [], { ...progress })
+
+  // Worker pool: each worker takes the next range in priority order
+  let next = 0
+  const worker = async () => {
+    while (next < reads.length && !signal?.aborted) {
+      const read = reads[next++]
+      const stream = streams[read.stream]
+      const recordsInRange = await readRecordRange(sdk, stream.schemaId, stream.publisher, read.start, read.end)
+      if (signal?.aborted) return
+
+      // Missing records are left out of the cache, so the next load reads them again
+      const decoded: Array<[number, CachedRecord]> = []
+      recordsInRange.forEach((record, offset) => {
+        if (record !== undefined) decoded.push([read.start + offset, decode(stream, record, read.start + offset)])
+      })
+      decoded.forEach(([index, record]) => apply(stream, record, index))
+      cache?.write(stream, decoded).catch(error => console.warn('⚠️  Failed to cache records:', error))
+
+      progress.loaded += read.end - read.start
+      // Tombstones alone change nothing visible
+      if (stream.codec) onProgress?.(mergeRecords(), { ...progress })
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, reads.length) }, worker))
+
+  const earthquakes = mergeRecords()
+  progress.done = !signal?.aborted
+  onProgress?.(earthquakes, { ...progress })
+  return earthquakes
+}
@@ -0,0 +1,99 @@
+import { SDK } from '@somnia-chain/streams'
+import { PUBLISHER_ADDRESSES } from './constants'
+import { loadEarthquakeHistory } from './earthquake-history'
+import { getPublicClient } from './sdk'
+import type { CachedRecord, CachedStream, HistoryCache } from './history-cache'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * Server-side index of decoded on-chain earthquakes (backs /api/earthquakes)
+ *
+ * Loaded with the same reader as the dashboard (lib/earthquake-history.ts), from
+ * every configured oracle with no filter, so retracted quakes are kept and flagged.
+ * Decoded records are held in memory by index, so a refresh only reads records
+ * appended since the last one. The index lives as long as the server process.
+ */
+
+// How long a loaded index is served before the chain is read again
+export const INDEX_TTL_MS = 30 * 1000
+
+export interface EarthquakeIndex {
+  earthquakes: Earthquake[]      // Newest first, retracted ones included
+  updatedAt: number              // When the chain was last read, Unix timestamp in ms
+}
+
+/**
+ * In-memory counterpart of the browser's IndexedDB cache
+ */
+class MemoryHistoryCache implements HistoryCache {
+  private streams = new Map<string, Map<number, CachedRecord>>()
+
+  private key({ schemaId, publisher }: CachedStream): string {
+    return `${schemaId.toLowerCase()}:${publisher.toLowerCase()}`
+  }
+
+  async read(stream: CachedStream): Promise<Map<number, CachedRecord>> {
+    return new Map(this.streams.get(this.key(stream)))
+  }
+
+  async write(stream: CachedStream, records: Array<[number, CachedRecord]>): Promise<void> {
+    const key = this.key(stream)
+    const cached = this.streams.get(key) ?? new Map<number, CachedRecord>()
+    records.forEach(([index, record]) => cached.set(index, record))
+    this.streams.set(key, cached)
+  }
+
+  async retain(streams: CachedStream[]): Promise<void> {
+    const keep = new Set(streams.map(stream => this.key(stream)))
+    for (const key of this.streams.keys()) {
+      if (!keep.has(key)) this.streams.delete(key)
+    }
+  }
+
+  async drop(stream: CachedStream): Promise<void> {
+    this.streams.delete(this.key(stream))
+  }
+
+  async clear(): Promise<void> {
+    this.streams.clear()
+  }
+}
+
+const cache = new MemoryHistoryCache()
+let index: EarthquakeIndex | null = null
+let refreshing: Promise<EarthquakeIndex> | null = null
+
+async function refreshIndex(): Promise<EarthquakeIndex> {
+  const startTime = Date.now()
+  const earthquakes = await loadEarthquakeHistory({
+    sdk: new SDK({ public: getPublicClient() }),
+    publishers: PUBLISHER_ADDRESSES,
+    cache
+  })
+  console.log(`🗂️  Earthquake index refreshed: ${earthquakes.length} earthquakes in ${Date.now() - startTime}ms`)
+  return { earthquakes, updatedAt: startTime }
+}
+
+/**
+ * The current index, read again from chain once older than INDEX_TTL_MS
+ * Concurrent requests share one refresh. When a refresh fails, the last loaded
+ * index is served with its old updatedAt; it throws only if none has loaded yet.
+ */
+export async function getEarthquakeIndex(): Promise<EarthquakeIndex> {
+  if (index && Date.now() - index.updatedAt < INDEX_TTL_MS) return index
+
+  refreshing ??= refreshIndex()
+    .then(refreshed => {
+      index = refreshed
+      return refreshed
+    })
+    .catch(error => {
+      if (!index) throw error
+      console.warn(`⚠️  Earthquake index refresh failed, serving the index from ${new Date(index.updatedAt).toISOString()}:`, error)
+      return index
+    })
+    .finally(() => {
+      refreshing = null
+    })
+  return refreshing
+}
@@ -0,0 +1,179 @@
+import { distanceKm, isPointInBoundingBox, type BoundingBox } from './geo'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * Query parameters of /api/earthquakes
+ *
+ * Every filter is optional and they combine with AND. Times take ISO 8601 or
+ * Unix milliseconds, magnitudes and depths (km) are inclusive.
+ */
+
+export type EarthquakeOrder = 'time' | 'time-asc' | 'magnitude' | 'magnitude-asc'
+
+export type EarthquakeQueryFormat = 'json' | 'geojson'
+
+export interface EarthquakeQuery {
+  startTime?: number             // Unix timestamp in ms, inclusive
+  endTime?: number               // Unix timestamp in ms, exclusive
+  bbox?: BoundingBox             // [west, south, east, north]
+  near?: { latitude: number; longitude: number; radiusKm: number }
+  minMagnitude?: number
+  maxMagnitude?: number
+  minDepth?: number
+  maxDepth?: number
+  includeRetracted: boolean
+  orderBy: EarthquakeOrder
+  limit: number
+  offset: number
+  format: EarthquakeQueryFormat
+}
+
+export const DEFAULT_QUERY_LIMIT = 100
+export const MAX_QUERY_LIMIT = 1000
+
+const ORDERS: EarthquakeOrder[] = ['time', 'time-asc', 'magnitude', 'magnitude-asc']
+const FORMATS: EarthquakeQueryFormat[] = ['json', 'geojson']
+
+/**
+ * Thrown for invalid query parameters; lists every problem at once
+ */
+export class EarthquakeQueryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid earthquake query:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'EarthquakeQueryError'
+  }
+}
+
+/**
+ * Parse and validate query parameters (throws EarthquakeQueryError)
+ */
+export function parseEarthquakeQuery(params: URLSearchParams): EarthquakeQuery {
+  const problems: string[] = []
+
+  const number = (name: string, bounds?: [number, number]): number | undefined => {
+    const raw = params.get(name)
+    if (raw === null || raw.trim() === '') return undefined
+    const value = Number(raw)
+    if (!Number.isFinite(value)) {
+      problems.push(`${name} must be a number`)
+    } else if (bounds && (value < bounds[0] || value > bounds[1])) {
+      problems.push(`${name} must be between ${bounds[0]} and ${bounds[1]}`)
+    } else {
+      return value
+    }
+    return undefined
+  }
+
+  const time = (name: string): number | undefined => {
+    const raw = params.get(name)
+    if (raw === null || raw.trim() === '') return undefined
+    const value = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw)
+    if (!Number.isFinite(value)) problems.push(`${name} must be an ISO 8601 date or Unix milliseconds`)
+    return Number.isFinite(value) ? value : undefined
+  }
+
+  const oneOf = <T extends string>(name: string, values: T[], fallback: T): T => {
+    const raw = params.get(name)
+    if (raw === null) return fallback
+    if (!values.includes(raw as T)) problems.push(`${name} must be one of ${values.join(', ')}`)
+    return values.includes(raw as T) ? raw as T : fallback
+  }
+
+  const query: EarthquakeQuery = {
+    startTime: time('startTime'),
+    endTime: time('endTime'),
+    minMagnitude: number('minMagnitude'),
+    maxMagnitude: number('maxMagnitude'),
+    minDepth: number('minDepth'),
+    maxDepth: number('maxDepth'),
+    includeRetracted: params.get('includeRetracted') === 'true',
+    orderBy: oneOf('orderBy', ORDERS, 'time'),
+    limit: number('limit', [1, MAX_QUERY_LIMIT]) ?? DEFAULT_QUERY_LIMIT,
+    offset: number('offset', [0, Number.MAX_SAFE_INTEGER]) ?? 0,
+    format: oneOf('format', FORMATS, 'json')
+  }
+
+  const bbox = params.get('bbox')
+  if (bbox !== null) {
+    const values = bbox.split(',').map(Number)
+    const [west, south, east, north] = values
+    if (values.length !== 4 || values.some(value => !Number.isFinite(value))) {
+      problems.push('bbox must be west,south,east,north')
+    } else if ([west, east].some(lon => lon < -180 || lon > 180) || [south, north].some(lat => lat < -90 || lat > 90) || south > north) {
+      problems.push('bbox longitudes must be within -180..180, latitudes within -90..90, south <= north')
+    } else {
+      query.bbox = values as BoundingBox
+    }
+  }
+
+  const latitude = number('latitude', [-90, 90])
+  const longitude = number('longitude', [-180, 180])
+  const radiusKm = number('radiusKm', [0, 20038])
+  const nearParams = ['latitude', 'longitude', 'radiusKm'].filter(name => params.has(name)).length
+  if (nearParams > 0 && nearParams < 3) {
+    problems.push('latitude, longitude and radiusKm must be given together')
+  } else if (latitude !== undefined && longitude !== undefined && radiusKm !== undefined) {
+    query.near = { latitude, longitude, radiusKm }
+  }
+
+  if (query.startTime !== undefined && query.endTime !== undefined && query.startTime >= query.endTime) {
+    problems.push('startTime must be before endTime')
+  }
+  if (query.minMagnitude !== undefined && query.maxMagnitude !== undefined && query.minMagnitude > query.maxMagnitude) {
+    problems.push('minMagnitude must not exceed maxMagnitude')
+  }
+  if (query.minDepth !== undefined && query.maxDepth !== undefined && query.minDepth > query.maxDepth) {
+    problems.push('minDepth must not exceed maxDepth')
+  }
+  if (!Number.isInteger(query.limit)) problems.push('limit must be an integer')
+  if (!Number.isInteger(query.offset)) problems.push('offset must be an integer')
+
+  if (problems.length > 0) throw new EarthquakeQueryError(problems)
+  return query
+}
+
+/**
+ * Whether an earthquake passes every filter of a query (ordering and paging aside)
+ */
+export function matchesEarthquakeQuery(quake: Earthquake, query: EarthquakeQuery): boolean {
+  return (query.includeRetracted || !quake.retracted) &&
+    (query.startTime === undefined || quake.timestamp >= query.startTime) &&
+    (query.endTime === undefined || quake.timestamp < query.endTime) &&
+    (query.minMagnitude === undefined || quake.magnitude >= query.minMagnitude) &&
+    (query.maxMagnitude === undefined || quake.magnitude <= query.maxMagnitude) &&
+    (query.minDepth === undefined || quake.depth >= query.minDepth) &&
+    (query.maxDepth === undefined || quake.depth <= query.maxDepth) &&
+    (!query.bbox || isPointInBoundingBox(quake.longitude, quake.latitude, query.bbox)) &&
+    (!query.near || distanceKm(query.near.latitude, query.near.longitude, quake.latitude, quake.longitude) <= query.near.radiusKm)
+}
+
+const COMPARATORS: Record<EarthquakeOrder, (a: Earthquake, b: Earthquake) => number> = {
+  'time': (a, b) => b.timestamp - a.timestamp,
+  'time-asc': (a, b) => a.timestamp - b.timestamp,
+  'magnitude': (a, b) => b.magnitude - a.magnitude || b.timestamp - a.timestamp,
+  'magnitude-asc': (a, b) => a.magnitude - b.magnitude || b.timestamp - a.timestamp
+}
+
+/**
+ * Filter, sort and page earthquakes (`total` counts every match, before paging)
+ */
+export function queryEarthquakes(earthquakes: Earthquake[], query: EarthquakeQuery): { total: number; earthquakes: Earthquake[] } {
+  const matches = earthquakes.filter(quake => matchesEarthquakeQuery(quake, query)).sort(COMPARATORS[query.orderBy])
+  return {
+    total: matches.length,
+    earthquakes: matches.slice(query.offset, query.offset + query.limit)
+  }
+}
+
+/**
+ * GeoJSON Feature of an earthquake: [longitude, latitude, depth] geometry, every other field as a property
+ */
+export function toGeoJSONFeature(quake: Earthquake) {
+  const { earthquakeId, latitude, longitude, depth, ...properties } = quake
+  return {
+    type: 'Feature' as const,
+    id: earthquakeId,
+    geometry: { type: 'Point' as const, coordinates: [longitude, latitude, depth] },
+    properties: { earthquakeId, ...properties }
+  }
+}
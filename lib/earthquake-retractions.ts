@@ -0,0 +1,68 @@
+import { RETRACTION_GRACE_MS } from './constants'
+import type { ProcessedEarthquake } from './sync-state'
+import type { Earthquake, RetractionReason } from '@/types/earthquake'
+
+export interface RetractionCandidate {
+  record: ProcessedEarthquake
+  reason: RetractionReason
+}
+
+interface RetractionCheck {
+  merged: Earthquake[]                            // Everything the sources returned this run, merged
+  quarantinedIds: Set<string>                     // Listed by a source but failed validation - not missing
+  processed: Map<string, ProcessedEarthquake>     // Processed records for the merged IDs
+  recent: ProcessedEarthquake[]                   // Processed records inside the checked window
+  completeSources: Set<string>                    // Sources that succeeded and return whole windows
+  defaultSource: string                           // Source assumed for records that predate source tracking
+  now: number
+}
+
+/**
+ * Decide which published earthquakes need a retraction tombstone
+ *
+ * - `deleted`: the source still lists the event but flags it deleted
+ * - `missing`: the event vanished from a source that returns every event in
+ *   the window, and has stayed missing for RETRACTION_GRACE_MS
+ *
+ * Also returns the record updates that start or clear the missing grace period.
+ */
+export function findRetractions({ merged, quarantinedIds, processed, recent, completeSources, defaultSource, now }: RetractionCheck): {
+  retractions: RetractionCandidate[]
+  missingUpdates: ProcessedEarthquake[]
+} {
+  const retractions: RetractionCandidate[] = []
+  const missingUpdates: ProcessedEarthquake[] = []
+  const retracting = new Set<string>()
+
+  for (const quake of merged) {
+    if (!quake.retracted) continue
+    const record = processed.get(quake.earthquakeId)
+    if (!record || record.publishedAs || record.retractedAt) continue
+
+    retractions.push({ record, reason: 'deleted' })
+    retracting.add(record.earthquakeId)
+  }
+
+  const seenIds = new Set([...merged.flatMap(quake => quake.sourceIds ?? [quake.earthquakeId]), ...quarantinedIds])
+
+  for (const record of recent) {
+    if (record.publishedAs || record.retractedAt || retracting.has(record.earthquakeId)) continue
+    // A failed or partial source tells us nothing about what it deleted
+    if (!completeSources.has(record.source ?? defaultSource)) continue
+
+    if (seenIds.has(record.earthquakeId)) {
+      if (record.missingSince) {
+        missingUpdates.push({ ...record, missingSince: undefined })
+      }
+      continue
+    }
+
+    if (!record.missingSince) {
+      missingUpdates.push({ ...record, missingSince: now })
+    } else if (now - record.missingSince >= RETRACTION_GRACE_MS) {
+      retractions.push({ record, reason: 'missing' })
+    }
+  }
+
+  return { retractions, missingUpdates }
+}
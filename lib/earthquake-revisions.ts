@@ -0,0 +1,59 @@
+import { REVISION_THRESHOLDS } from './constants'
+import { PUBLISH_EARTHQUAKE_CODEC } from './schema-codecs'
+import { distanceKm } from './geo'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * The values of an earthquake as last published on-chain
+ * Kept in the sync state so later source revisions can be compared against them.
+ */
+export type PublishedSnapshot = Pick<Earthquake, 'location' | 'magnitude' | 'depth' | 'latitude' | 'longitude' | 'timestamp' | 'updated' | 'status' | 'alert' | 'tsunami'>
+
+export type RevisedField = 'magnitude' | 'depth' | 'epicentre' | 'time' | 'location' | 'status' | 'alert' | 'tsunami'
+
+export function toPublishedSnapshot(quake: Earthquake): PublishedSnapshot {
+  const { location, magnitude, depth, latitude, longitude, timestamp, updated, status, alert, tsunami } = quake
+  return { location, magnitude, depth, latitude, longitude, timestamp, updated, status, alert, tsunami }
+}
+
+/**
+ * Whether the source has revised the event since it was published
+ * Sources without an `updated` timestamp are always compared by value.
+ */
+export function isNewerRevision(published: PublishedSnapshot, current: Earthquake): boolean {
+  if (published.updated === undefined || current.updated === undefined) return true
+  return current.updated > published.updated
+}
+
+/**
+ * List the fields that changed enough to be worth republishing
+ */
+export function getMaterialChanges(published: PublishedSnapshot, current: Earthquake): RevisedField[] {
+  const changes: RevisedField[] = []
+
+  // Compare at on-chain precision (magnitude × 10) so float noise is not a revision
+  if (Math.abs(Math.round(current.magnitude * 10) - Math.round(published.magnitude * 10)) >= REVISION_THRESHOLDS.MAGNITUDE * 10) {
+    changes.push('magnitude')
+  }
+  if (Math.abs(current.depth - published.depth) >= REVISION_THRESHOLDS.DEPTH_KM) {
+    changes.push('depth')
+  }
+  if (distanceKm(published.latitude, published.longitude, current.latitude, current.longitude) >= REVISION_THRESHOLDS.EPICENTRE_KM) {
+    changes.push('epicentre')
+  }
+  if (Math.abs(current.timestamp - published.timestamp) >= REVISION_THRESHOLDS.ORIGIN_TIME_MS) {
+    changes.push('time')
+  }
+  if (current.location !== published.location) {
+    changes.push('location')
+  }
+
+  // Only v2+ records carry these, so v1 deployments don't republish for them
+  if (PUBLISH_EARTHQUAKE_CODEC.version >= 2) {
+    if (current.status !== published.status) changes.push('status')
+    if (current.alert !== published.alert) changes.push('alert')
+    if (!!current.tsunami !== !!published.tsunami) changes.push('tsunami')
+  }
+
+  return changes
+}
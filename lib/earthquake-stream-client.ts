@@ -0,0 +1,625 @@
+import { SDK } from '@somnia-chain/streams'
+import { createPublicClient, http, webSocket, type Hex } from 'viem'
+import { somniaTestnet } from './chains'
+import { EARTHQUAKE_EVENTS, PUBLISHER_ADDRESSES } from './constants'
+import { getReconnectDelay, INITIAL_CONNECTION_STATE, type ConnectionState } from './connection-state'
+import { loadEarthquakeHistory, readRecordRange, type HistoryProgress, type StreamTotal } from './earthquake-history'
+import { subscribeToEarthquakeRevisions, subscribeToNewEarthquakes, subscribeToRetractions, type EarthquakeSubscription } from './earthquake-subscriptions'
+import { getEventTopicFilter, matchesEarthquakeFilter, type EarthquakeFilter } from './event-topics'
+import type { HistoryCache } from './history-cache'
+import { withAttestation, withRetraction } from './publisher-agreement'
+import { PUBLISH_EARTHQUAKE_CODEC, RETRACTION_CODEC, type EncodedRecord } from './schema-codecs'
+import type { Earthquake, EarthquakeRetraction } from '@/types/earthquake'
+
+/**
+ * Live earthquake stream, for the browser and Node alike
+ *
+ * Loads the history (lib/earthquake-history.ts), then subscribes to every
+ * configured oracle's events and keeps a merged, deduplicated list: revisions
+ * replace stale entries, retractions flag them, records published between two
+ * events are read by index (with a topic filter, only once an event shows one of
+ * them was its own), and every reconnect catches up on what was missed.
+ * Reconnects back off exponentially with jitter (lib/connection-state.ts).
+ *
+ * Listen with `on(event, listener)`, or iterate `events()` with for await.
+ * useEarthquakes is a thin React wrapper around this client.
+ */
+
+export interface EarthquakeStreamClientOptions {
+  filter?: EarthquakeFilter
+  publishers?: readonly `0x${string}`[]   // Default NEXT_PUBLIC_PUBLISHER_ADDRESSES
+  cache?: HistoryCache | null | Promise<HistoryCache | null>
+  createFetchSDK?: () => SDK               // HTTP reads (default: the chain's public RPC)
+  createSubscriptionSDK?: () => SDK        // One WebSocket per connection attempt (default: the chain's endpoint)
+}
+
+export interface EarthquakeStreamEvents {
+  history: [earthquakes: Earthquake[], progress: HistoryProgress]  // While the history loads, newest first
+  list: [earthquakes: Earthquake[]]                                 // The whole list after every change
+  earthquake: [quake: Earthquake]                                   // A new quake arrived live
+  updated: [quake: Earthquake, previous: Earthquake]                // A revision replaced a quake in the list
+  retracted: [quake: Earthquake]                                    // A quake is now flagged retracted
+  connection: [connection: ConnectionState]
+}
+
+export type EarthquakeStreamEvent = {
+  [K in keyof EarthquakeStreamEvents]: { type: K; args: EarthquakeStreamEvents[K] }
+}[keyof EarthquakeStreamEvents]
+
+type Listener<K extends keyof EarthquakeStreamEvents> = (...args: EarthquakeStreamEvents[K]) => void
+
+const STREAM_EVENTS: Array<keyof EarthquakeStreamEvents> = ['history', 'list', 'earthquake', 'updated', 'retracted', 'connection']
+
+// Catch up on visibility only when nothing arrived for this long
+const VISIBILITY_REFRESH_MS = 30 * 1000
+
+function createDefaultFetchSDK(): SDK {
+  return new SDK({ public: createPublicClient({ chain: somniaTestnet, transport: http() }) })
+}
+
+function createDefaultSubscriptionSDK(): SDK {
+  return new SDK({ public: createPublicClient({ chain: somniaTestnet, transport: webSocket() }) })
+}
+
+/**
+ * Whether two records of the same earthquake carry identical on-chain values
+ */
+function isSameEarthquakeData(a: Earthquake, b: Earthquake): boolean {
+  return a.location === b.location &&
+    a.magnitude === b.magnitude &&
+    a.depth === b.depth &&
+    a.latitude === b.latitude &&
+    a.longitude === b.longitude &&
+    a.timestamp === b.timestamp &&
+    a.url === b.url &&
+    a.magType === b.magType &&
+    a.status === b.status &&
+    !!a.tsunami === !!b.tsunami &&
+    a.alert === b.alert &&
+    a.felt === b.felt &&
+    a.cdi === b.cdi &&
+    a.mmi === b.mmi &&
+    a.sig === b.sig &&
+    !!a.retracted === !!b.retracted &&
+    JSON.stringify(a.attestations) === JSON.stringify(b.attestations)
+}
+
+function byNewest(a: Earthquake, b: Earthquake): number {
+  return b.timestamp - a.timestamp
+}
+
+export class EarthquakeStreamClient {
+  private readonly filter: EarthquakeFilter
+  // Subscribed by topic, so records outside the filter publish no event here
+  private readonly isTopicFiltered: boolean
+  private readonly publishers: readonly `0x${string}`[]
+  private readonly createFetchSDK: () => SDK
+  private readonly createSubscriptionSDK: () => SDK
+  private readonly cache: Promise<HistoryCache | null>
+  private listeners = new Map<keyof EarthquakeStreamEvents, Set<(...args: never) => void>>()
+  private stopIterators = new Set<() => void>()    // Ends every open events() iterator
+
+  private list: Earthquake[] = []
+  private progress: HistoryProgress = { loaded: 0, total: 0, done: false }
+  private connectionState: ConnectionState = INITIAL_CONNECTION_STATE
+
+  private subscriptions: EarthquakeSubscription[] = []
+  private isSubscribed = false
+  private isReconnecting = false
+  private isInitialized = false
+  private isStopped = true
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  private lastEventTime = Date.now()
+  private historyLoad: AbortController | null = null
+  private removeEnvironmentListeners: (() => void) | null = null
+  // Retractions can arrive before the quake they refer to - publishers by earthquake ID
+  private retractedBy = new Map<string, Set<string>>()
+  // Per schema and publisher, the record count the list is complete up to
+  private knownTotals = new Map<string, number>()
+  // Under a topic filter, the first index of records skipped since the last read
+  private unreadFrom = new Map<string, number>()
+  // Index of the newest live record applied per publisher and earthquake (a gap read late must not undo a revision)
+  private liveIndexes = new Map<string, number>()
+
+  constructor(options: EarthquakeStreamClientOptions = {}) {
+    this.filter = options.filter ?? {}
+    this.isTopicFiltered = getEventTopicFilter(EARTHQUAKE_EVENTS.DETECTED, this.filter) !== undefined
+    this.publishers = options.publishers ?? PUBLISHER_ADDRESSES
+    this.createFetchSDK = options.createFetchSDK ?? createDefaultFetchSDK
+    this.createSubscriptionSDK = options.createSubscriptionSDK ?? createDefaultSubscriptionSDK
+    this.cache = Promise.resolve(options.cache ?? null)
+  }
+
+  /** Current list, newest first */
+  get earthquakes(): Earthquake[] {
+    return this.list
+  }
+
+  get connection(): ConnectionState {
+    return this.connectionState
+  }
+
+  get historyProgress(): HistoryProgress {
+    return this.progress
+  }
+
+  /**
+   * Listen for an event; returns a function that removes the listener
+   */
+  on<K extends keyof EarthquakeStreamEvents>(event: K, listener: Listener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(event, listeners)
+    return () => this.off(event, listener)
+  }
+
+  off<K extends keyof EarthquakeStreamEvents>(event: K, listener: Listener<K>): void {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  private emit<K extends keyof EarthquakeStreamEvents>(event: K, ...args: EarthquakeStreamEvents[K]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        (listener as Listener<K>)(...args)
+      } catch (error) {
+        console.error(`❌ ${event} listener failed:`, error)
+      }
+    })
+  }
+
+  /**
+   * Every event from now until stop(), in order
+   * Events are queued while the consumer is busy, so none are dropped.
+   */
+  events(): AsyncIterableIterator<EarthquakeStreamEvent> {
+    const queue: EarthquakeStreamEvent[] = []
+    let wake: (() => void) | null = null
+    let isDone = false
+
+    const push = (event: EarthquakeStreamEvent) => {
+      queue.push(event)
+      wake?.()
+    }
+    const removers = STREAM_EVENTS.map(type => this.on(type, (...args: EarthquakeStreamEvents[typeof type]) => push({ type, args } as EarthquakeStreamEvent)))
+    const finish = () => {
+      isDone = true
+      removers.forEach(remove => remove())
+      this.stopIterators.delete(finish)
+      wake?.()
+    }
+    this.stopIterators.add(finish)
+
+    return {
+      next: async () => {
+        while (queue.length === 0 && !isDone) {
+          await new Promise<void>(resolve => {
+            wake = resolve
+          })
+          wake = null
+        }
+        return queue.length > 0
+          ? { value: queue.shift()!, done: false }
+          : { value: undefined, done: true }
+      },
+      return: async () => {
+        finish()
+        return { value: undefined, done: true }
+      },
+      [Symbol.asyncIterator]() {
+        return this
+      }
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<EarthquakeStreamEvent> {
+    return this.events()
+  }
+
+  /**
+   * Load the history, then subscribe (resolves once the history is loaded)
+   */
+  async start(): Promise<void> {
+    if (!this.isStopped) return
+    this.isStopped = false
+    console.log('🔔 Setting up earthquake WebSocket subscription with ethCalls...')
+    this.setConnection({ status: 'connecting', retryCount: 0 })
+    this.watchEnvironment()
+
+    // Fetch all earthquakes FIRST, then set up the subscription
+    // This prevents race condition where WebSocket events arrive before initial fetch completes
+    this.historyLoad = new AbortController()
+    const signal = this.historyLoad.signal
+    try {
+      const earthquakes = await this.loadHistory({
+        signal,
+        onProgress: (quakes, progress) => {
+          this.progress = progress
+          this.emit('history', quakes, progress)
+          this.setList(quakes)
+        }
+      })
+      if (signal.aborted) return
+      this.list = earthquakes
+      this.isInitialized = true
+      console.log(`📋 Initialized with ${earthquakes.length} earthquakes, now setting up WebSocket...`)
+    } catch (error) {
+      console.error('❌ Failed initial fetch, setting up subscription anyway:', error)
+      this.progress = { ...this.progress, done: true }
+      this.emit('history', this.list, this.progress)
+    }
+
+    if (!this.isStopped) this.subscribe()
+  }
+
+  /**
+   * Unsubscribe and stop reconnecting (a stopped client can be started again)
+   */
+  stop(): void {
+    if (this.isStopped) return
+    this.isStopped = true
+    this.historyLoad?.abort()
+    this.removeEnvironmentListeners?.()
+    this.removeEnvironmentListeners = null
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+
+    if (this.subscriptions.length > 0) {
+      this.isSubscribed = false
+      this.subscriptions.forEach(subscription => subscription.unsubscribe())
+      this.subscriptions = []
+      console.log('🔕 Unsubscribed from earthquakes')
+    }
+
+    this.stopIterators.forEach(finish => finish())
+  }
+
+  /**
+   * Read every configured oracle's history once (see lib/earthquake-history.ts)
+   * Records already in the cache are not read again.
+   */
+  async loadHistory({ signal, onProgress }: {
+    signal?: AbortSignal
+    onProgress?: (earthquakes: Earthquake[], progress: HistoryProgress) => void
+  } = {}): Promise<Earthquake[]> {
+    console.log('📥 Fetching initial earthquakes from blockchain...')
+
+    const earthquakes = await loadEarthquakeHistory({
+      sdk: this.createFetchSDK(),
+      publishers: this.publishers,
+      filter: this.filter,
+      signal,
+      cache: await this.cache,
+      onTotals: totals => this.recordTotals(totals),
+      onProgress: (quakes, progress) => {
+        if (!signal?.aborted) onProgress?.(quakes, progress)
+      }
+    })
+
+    if (earthquakes.length === 0) {
+      console.log('📭 No earthquakes found on-chain yet')
+      console.log('   Waiting for oracle to publish data...')
+      return []
+    }
+
+    const retracted = earthquakes.filter(quake => quake.retracted).length
+    const disputed = earthquakes.filter(quake => quake.disagreements).length
+    console.log(`📊 Loaded ${earthquakes.length} earthquakes from ${this.publishers.length} oracle(s) (filtered for magnitude ${this.filter.minMagnitude ?? 0}+${this.filter.region ? ' in region' : ''}, ${retracted} retracted, ${disputed} disputed)`)
+    return earthquakes
+  }
+
+  /**
+   * Read the history again and merge it into the list (catch-up after a disconnect)
+   */
+  async refresh(): Promise<void> {
+    console.log('🔄 Refetching all earthquakes to catch any missed during disconnect...')
+    let freshQuakes: Earthquake[]
+    try {
+      freshQuakes = await this.loadHistory()
+    } catch (error) {
+      console.error('❌ Failed to refetch earthquakes:', error)
+      return
+    }
+
+    // Merge with existing, deduplicate by ID and replace entries that were revised
+    const freshById = new Map(freshQuakes.map(q => [q.earthquakeId, q]))
+    const existingIds = new Set(this.list.map(q => q.earthquakeId))
+    const newQuakes = freshQuakes.filter(q => !existingIds.has(q.earthquakeId))
+    let revisedCount = 0
+
+    const merged = this.list.map(q => {
+      const fresh = freshById.get(q.earthquakeId)
+      if (fresh && !isSameEarthquakeData(q, fresh)) {
+        revisedCount++
+        return fresh
+      }
+      return q
+    })
+
+    if (newQuakes.length > 0 || revisedCount > 0) {
+      console.log(`✨ Found ${newQuakes.length} earthquake(s) that were missed and ${revisedCount} revision(s)!`)
+      this.setList([...merged, ...newQuakes].sort(byNewest))
+    } else {
+      console.log('✅ No missed earthquakes')
+    }
+
+    this.lastEventTime = Date.now()
+  }
+
+  private setList(earthquakes: Earthquake[]) {
+    this.list = earthquakes
+    this.emit('list', earthquakes)
+  }
+
+  private setConnection(changes: Partial<ConnectionState>) {
+    this.connectionState = { ...this.connectionState, ...changes }
+    this.emit('connection', this.connectionState)
+  }
+
+  private streamKey(schemaId: Hex, publisher: string): string {
+    return `${schemaId.toLowerCase()}:${publisher.toLowerCase()}`
+  }
+
+  private recordTotals(totals: StreamTotal[]) {
+    totals.forEach(({ schemaId, publisher, total }) => {
+      const key = this.streamKey(schemaId, publisher)
+      this.knownTotals.set(key, Math.max(this.knownTotals.get(key) ?? 0, total))
+
+      // The history covers every index below its count
+      const unread = this.unreadFrom.get(key)
+      if (unread === undefined || unread >= total) return
+      if (total >= this.knownTotals.get(key)! - 1) this.unreadFrom.delete(key)
+      else this.unreadFrom.set(key, total)
+    })
+  }
+
+  /**
+   * Browser only: catch up when a hidden tab becomes visible, and follow online/offline events
+   */
+  private watchEnvironment() {
+    if (typeof window === 'undefined' || typeof document === 'undefined') return
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden && this.isSubscribed && Date.now() - this.lastEventTime > VISIBILITY_REFRESH_MS) {
+        console.log('👁️ Tab became visible, checking for missed earthquakes...')
+        this.refresh()
+      }
+    }
+
+    // Stop retrying while offline; reconnect straight away (and catch up) when back online
+    const handleOffline = () => {
+      console.log('📴 Browser went offline')
+      if (this.reconnectTimeout) {
+        clearTimeout(this.reconnectTimeout)
+        this.reconnectTimeout = null
+      }
+      this.setConnection({ status: 'offline' })
+    }
+
+    const handleOnline = () => {
+      console.log('📶 Browser back online, reconnecting...')
+      if (this.reconnectTimeout) {
+        clearTimeout(this.reconnectTimeout)
+        this.reconnectTimeout = null
+      }
+      this.setConnection({ status: 'reconnecting', retryCount: 0 })
+      if (this.isInitialized) this.subscribe()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('offline', handleOffline)
+    window.addEventListener('online', handleOnline)
+    this.removeEnvironmentListeners = () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('offline', handleOffline)
+      window.removeEventListener('online', handleOnline)
+    }
+  }
+
+  // Retry with exponential backoff and jitter - or wait for the browser's online event
+  private scheduleReconnect() {
+    if (this.reconnectTimeout || this.isReconnecting || this.isStopped) return
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      console.log('📴 Browser is offline - will reconnect once it is back online')
+      this.setConnection({ status: 'offline' })
+      return
+    }
+
+    const delay = getReconnectDelay(this.connectionState.retryCount)
+    this.setConnection({ status: 'reconnecting', retryCount: this.connectionState.retryCount + 1 })
+    console.log(`🔄 Will attempt to reconnect in ${(delay / 1000).toFixed(1)} seconds (retry ${this.connectionState.retryCount})...`)
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null
+      console.log('🔌 Reconnecting WebSocket...')
+      this.subscribe()
+    }, delay)
+  }
+
+  // EarthquakeDetected and EarthquakeUpdated both bundle the publisher's latest earthquake record
+  private handleEarthquake(publisher: `0x${string}`, decoded: Earthquake, index?: number) {
+    this.lastEventTime = Date.now()
+    this.setConnection({ lastEventAt: this.lastEventTime })
+    if (!this.isSubscribed) {
+      console.warn('⚠️  Received earthquake event but not subscribed, ignoring')
+      return
+    }
+
+    if (index !== undefined) {
+      const key = `${publisher}:${decoded.earthquakeId}`
+      if ((this.liveIndexes.get(key) ?? -1) > index) {
+        console.log(`ℹ️  Earthquake ${decoded.earthquakeId} record ${index} is older than the one shown, skipping`)
+        return
+      }
+      this.liveIndexes.set(key, index)
+    }
+
+    console.log(`📊 Decoded: M${decoded.magnitude.toFixed(1)} - ${decoded.location} (from ${publisher})`)
+
+    // Merge with what the other oracles published (dedupe by ID)
+    const existing = this.list.find(q => q.earthquakeId === decoded.earthquakeId)
+    const isRetracted = this.retractedBy.get(decoded.earthquakeId)?.has(publisher) ||
+      existing?.attestations?.some(attestation => attestation.publisher === publisher && attestation.retracted)
+    const quake = withAttestation(existing, isRetracted ? { ...decoded, retracted: true } : decoded, publisher, this.publishers)
+
+    if (existing) {
+      if (isSameEarthquakeData(existing, quake)) {
+        console.log(`ℹ️  Earthquake ${quake.earthquakeId} already in list (duplicate)`)
+        return
+      }
+
+      // Revised by the oracle - replace the stale entry in place
+      console.log(`✏️  Earthquake ${quake.earthquakeId} revised: M${existing.magnitude.toFixed(1)} → M${quake.magnitude.toFixed(1)}`)
+      this.setList(this.list.map(q => q.earthquakeId === quake.earthquakeId ? quake : q).sort(byNewest))
+      this.emit('updated', quake, existing)
+      return
+    }
+
+    this.setList([...this.list, quake].sort(byNewest))
+    console.log(`🎉 New earthquake added! Total: ${this.list.length}`)
+    this.emit('earthquake', quake)
+  }
+
+  private handleRetraction(publisher: `0x${string}`, { earthquakeId, reason }: EarthquakeRetraction) {
+    this.lastEventTime = Date.now()
+    this.setConnection({ lastEventAt: this.lastEventTime })
+    if (!this.isSubscribed) return
+    this.retractedBy.set(earthquakeId, new Set([...(this.retractedBy.get(earthquakeId) ?? []), publisher]))
+
+    const target = this.list.find(q => q.earthquakeId === earthquakeId)
+    if (!target) return
+
+    const updated = withRetraction(target, publisher)
+    if (updated === target) return
+
+    console.log(`🪦 Earthquake ${earthquakeId} retracted by ${publisher} (${reason})${updated.retracted ? '' : ' - other oracles still list it'}`)
+    this.setList(this.list.map(q => q.earthquakeId === earthquakeId ? updated : q))
+    if (updated.retracted) this.emit('retracted', updated)
+  }
+
+  /**
+   * Each event bundles the publisher's record count: when it jumps past the bundled record,
+   * read exactly the indexes in between (records outside the filter are read and dropped)
+   *
+   * With `onlyWhenMissed` (earthquakes under a topic filter) records outside the filter
+   * are expected in between, so the indexes are only remembered. They are read once an
+   * event's bundled record is not delivered, or was already bundled with an earlier event:
+   * its own record is then among them.
+   */
+  private async fillGap(schemaId: Hex, publisher: `0x${string}`, total: number, delivered: boolean, apply: (record: EncodedRecord, index: number) => void, onlyWhenMissed = false) {
+    const key = this.streamKey(schemaId, publisher)
+    const known = this.knownTotals.get(key)
+    this.knownTotals.set(key, Math.max(known ?? 0, total))
+    if (known === undefined) return
+
+    let from = known
+    if (onlyWhenMissed) {
+      if (total - 1 > known && !this.unreadFrom.has(key)) this.unreadFrom.set(key, known)
+      const unread = this.unreadFrom.get(key)
+      if ((delivered && total > known) || unread === undefined) return
+      this.unreadFrom.delete(key)
+      from = unread
+    }
+
+    // The newest bundled record arrived with its event
+    const to = Math.max(known, total) - 1
+    if (to <= from) return
+
+    console.log(`🕳️  ${to - from} record(s) from ${publisher} arrived without an event, reading indexes ${from}-${to - 1}`)
+    let records: Array<EncodedRecord | undefined>
+    try {
+      records = await readRecordRange(this.createFetchSDK(), schemaId, publisher, from, to)
+    } catch (error) {
+      console.error('❌ Failed to read missing records, refetching everything:', error)
+      this.refresh()
+      return
+    }
+    records.forEach((record, offset) => {
+      if (!record || record === '0x') return
+      try {
+        apply(record, from + offset)
+      } catch (error) {
+        console.warn(`Failed to process record ${from + offset} from ${publisher}:`, error)
+      }
+    })
+
+    if (records.some(record => record === undefined)) {
+      console.warn('⚠️  Some missing records could not be read, refetching everything')
+      this.refresh()
+    }
+  }
+
+  // Subscribe (called initially and on reconnect)
+  private async subscribe() {
+    if (this.isReconnecting || this.isStopped) return
+    this.isReconnecting = true
+
+    // Clean up old subscriptions if they exist
+    for (const subscription of this.subscriptions) {
+      try {
+        subscription.unsubscribe()
+      } catch {
+        // Ignore errors during cleanup
+      }
+    }
+    this.subscriptions = []
+    this.isSubscribed = false
+
+    try {
+      const sdk = this.createSubscriptionSDK()
+
+      // Every subscription shares one socket - only schedule a single reconnect
+      const onError = (error: Error) => {
+        console.error('❌ Subscription error:', error)
+        this.isSubscribed = false
+        this.scheduleReconnect()
+      }
+
+      // ethCalls bundle the LATEST record with every event (v0.9.1 feature)
+      // With a region or magnitude filter, only the matching cell/band topics are pushed
+      // Events don't name their publisher, so each oracle gets its own subscriptions
+      const subscriptions: EarthquakeSubscription[] = []
+      for (const publisher of this.publishers) {
+        const options = { sdk, filter: this.filter, publisher, onError }
+        const onData = (quake: Earthquake, index?: number) => this.handleEarthquake(publisher, quake, index)
+        const onTotal = (total: number, delivered: boolean) => this.fillGap(PUBLISH_EARTHQUAKE_CODEC.schemaId!, publisher, total, delivered, (record, index) => {
+          const quake = PUBLISH_EARTHQUAKE_CODEC.decode(record)
+          if (matchesEarthquakeFilter(quake, this.filter)) this.handleEarthquake(publisher, quake, index)
+        }, this.isTopicFiltered)
+        subscriptions.push(
+          await subscribeToNewEarthquakes({ ...options, onData, onTotal }),
+          await subscribeToEarthquakeRevisions({ ...options, onData, onTotal }),
+          ...(RETRACTION_CODEC.schemaId ? [await subscribeToRetractions({
+            ...options,
+            onData: retraction => this.handleRetraction(publisher, retraction),
+            // Tombstones have no location to tell a missed one from a filtered-out one - every gap is read
+            onTotal: (total, delivered) => this.fillGap(RETRACTION_CODEC.schemaId!, publisher, total, delivered, record => this.handleRetraction(publisher, RETRACTION_CODEC.decode(record)))
+          })] : [])
+        )
+      }
+
+      this.isReconnecting = false
+      if (this.isStopped) {
+        subscriptions.forEach(subscription => subscription.unsubscribe())
+        return
+      }
+
+      this.subscriptions = subscriptions
+      this.isSubscribed = true
+      this.setConnection({ status: 'live', retryCount: 0 })
+      console.log(`✅ Subscribed to ${subscriptions.length} earthquake event streams (with ethCalls for zero-latency)`)
+
+      // After reconnection, catch up on any earthquakes we missed
+      if (this.isInitialized) {
+        console.log('🔄 Catching up on missed earthquakes...')
+        this.refresh()
+      }
+    } catch (error) {
+      console.error('❌ Failed to subscribe:', error)
+      this.isReconnecting = false
+      this.scheduleReconnect()
+    }
+  }
+}
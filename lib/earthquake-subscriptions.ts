@@ -0,0 +1,182 @@
+import type { SDK } from '@somnia-chain/streams'
+import { decodeFunctionResult, encodeFunctionData, type Hex } from 'viem'
+import { EARTHQUAKE_EVENTS, PUBLISHER_ADDRESS } from '@/lib/constants'
+import { getClientSDK } from '@/lib/client-sdk'
+import { getEventTopicFilter, matchesAlertEvent, matchesEarthquakeFilter, type EarthquakeEventId, type EarthquakeFilter } from '@/lib/event-topics'
+import { PUBLISH_EARTHQUAKE_CODEC, RETRACTION_CODEC } from '@/lib/schema-codecs'
+import type { Earthquake, EarthquakeRetraction } from '@/types/earthquake'
+
+/**
+ * Subscriptions to the oracle's events (browser, or Node with a WebSocket SDK)
+ *
+ * Each event is delivered with the publisher's latest record bundled through an
+ * ethCall (getLastPublishedDataForSchema), so no extra fetch is needed. Region
+ * and magnitude filters are turned into event topics (see lib/event-topics.ts).
+ * Events do not name their publisher: with several oracles, subscribe once per
+ * publisher and every event bundles that publisher's latest record.
+ *
+ * A second ethCall bundles the publisher's record count (totalPublisherDataForSchema),
+ * which gives the bundled record's index. When the count jumps by more than one
+ * between events, records were published in between that no event delivered -
+ * `onTotal` reports every count so the caller can read exactly those indexes.
+ * With a topic filter, records outside it are expected in between: `onTotal` also
+ * says whether the bundled record was delivered, as an event whose own record is
+ * not the bundled one is the sign that a matching record was missed.
+ */
+
+export interface EarthquakeSubscription {
+  unsubscribe: () => void
+}
+
+export interface SubscriptionOptions<T> {
+  onData: (record: T, index?: number) => void  // Index of the record under its schema (unknown if the count call failed)
+  onTotal?: (total: number, delivered: boolean) => void  // Publisher's record count at every event, filtered-out records included, and whether onData gets the record at total - 1
+  onError?: (error: Error) => void
+  filter?: EarthquakeFilter
+  publisher?: `0x${string}`               // Oracle whose latest record is bundled (default PUBLISHER_ADDRESS)
+  sdk?: SDK                               // Share one WebSocket SDK between subscriptions (default: the browser's)
+}
+
+/**
+ * Subscribe to an event with the latest record of `schemaId` bundled in
+ */
+async function subscribeWithLatestRecord<T>(
+  eventId: EarthquakeEventId,
+  schemaId: Hex,
+  decode: (data: Hex) => T | undefined,
+  { onData, onTotal, onError, filter = {}, publisher = PUBLISHER_ADDRESS, sdk = getClientSDK() }: SubscriptionOptions<T>
+): Promise<EarthquakeSubscription> {
+  const protocolInfo = await sdk.streams.getSomniaDataStreamsProtocolInfo()
+  if (!protocolInfo || protocolInfo instanceof Error) {
+    throw new Error('Failed to get protocol info')
+  }
+
+  const topics = getEventTopicFilter(eventId, filter)
+  const subscription = await sdk.streams.subscribe({
+    somniaStreamsEventId: eventId,
+    // The SDK passes these straight through as log filter topics (nested arrays = any of)
+    ...(topics && { topicOverrides: topics as Hex[] }),
+    ethCalls: [
+      {
+        to: protocolInfo.address as Hex,
+        data: encodeFunctionData({
+          abi: protocolInfo.abi,
+          functionName: 'getLastPublishedDataForSchema',
+          args: [schemaId, publisher]
+        })
+      },
+      {
+        to: protocolInfo.address as Hex,
+        data: encodeFunctionData({
+          abi: protocolInfo.abi,
+          functionName: 'totalPublisherDataForSchema',
+          args: [schemaId, publisher]
+        })
+      }
+    ],
+    onlyPushChanges: false,
+    onData: (data: unknown) => {
+      try {
+        const { result } = data as { result?: { simulationResults?: readonly Hex[] } }
+        if (!result?.simulationResults || result.simulationResults.length === 0) {
+          console.warn(`⚠️  No simulationResults in ${eventId} data`)
+          return
+        }
+
+        // getLastPublishedDataForSchema returns a SINGLE bytes value, not bytes[]
+        const lastPublishedData = decodeFunctionResult({
+          abi: protocolInfo.abi,
+          functionName: 'getLastPublishedDataForSchema',
+          data: result.simulationResults[0]
+        }) as Hex
+
+        // Both calls run in the same simulation, so the latest record is at index total - 1
+        let total: number | undefined
+        try {
+          total = result.simulationResults[1] ? Number(decodeFunctionResult({
+            abi: protocolInfo.abi,
+            functionName: 'totalPublisherDataForSchema',
+            data: result.simulationResults[1]
+          }) as bigint) : undefined
+        } catch (error) {
+          console.warn(`⚠️  Failed to decode record count in ${eventId} data:`, error)
+        }
+        const record = lastPublishedData && lastPublishedData !== '0x' ? decode(lastPublishedData) : undefined
+        if (total !== undefined) onTotal?.(total, record !== undefined)
+
+        if (!lastPublishedData || lastPublishedData === '0x') {
+          console.warn(`⚠️  No record in ${eventId} ethCall result`)
+          return
+        }
+
+        if (record !== undefined) onData(record, total !== undefined ? total - 1 : undefined)
+      } catch (error) {
+        console.error(`❌ Failed to process ${eventId} event:`, error)
+      }
+    },
+    onError
+  })
+
+  if (!subscription) throw new Error(`Failed to subscribe to ${eventId}`)
+  return subscription
+}
+
+/**
+ * Subscribe to an event that carries an earthquake record
+ * Records outside the filter, or not meeting an alert event's condition, are dropped.
+ */
+export async function subscribeToEarthquakeEvent(
+  eventId: Exclude<EarthquakeEventId, typeof EARTHQUAKE_EVENTS.RETRACTED>,
+  options: SubscriptionOptions<Earthquake>
+): Promise<EarthquakeSubscription> {
+  if (!PUBLISH_EARTHQUAKE_CODEC.schemaId) {
+    throw new Error('NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID is not set')
+  }
+
+  return subscribeWithLatestRecord(eventId, PUBLISH_EARTHQUAKE_CODEC.schemaId, data => {
+    const quake = PUBLISH_EARTHQUAKE_CODEC.decode(data)
+    if (!matchesEarthquakeFilter(quake, options.filter ?? {})) return undefined
+    if (!matchesAlertEvent(eventId, quake)) {
+      console.warn(`⚠️  ${eventId}: bundled record ${quake.earthquakeId} is a later publication, skipping`)
+      return undefined
+    }
+    return quake
+  }, options)
+}
+
+// First publication of every earthquake
+export function subscribeToNewEarthquakes(options: SubscriptionOptions<Earthquake>) {
+  return subscribeToEarthquakeEvent(EARTHQUAKE_EVENTS.DETECTED, options)
+}
+
+// Corrected values of an earthquake already published
+export function subscribeToEarthquakeRevisions(options: SubscriptionOptions<Earthquake>) {
+  return subscribeToEarthquakeEvent(EARTHQUAKE_EVENTS.UPDATED, options)
+}
+
+// M6+ earthquakes (MAGNITUDE_THRESHOLDS.STRONG)
+export function subscribeToSignificantEarthquakes(options: SubscriptionOptions<Earthquake>) {
+  return subscribeToEarthquakeEvent(EARTHQUAKE_EVENTS.SIGNIFICANT, options)
+}
+
+// PAGER alert orange or red
+export function subscribeToPagerAlerts(options: SubscriptionOptions<Earthquake>) {
+  return subscribeToEarthquakeEvent(EARTHQUAKE_EVENTS.PAGER_ALERT, options)
+}
+
+// Flagged for tsunami warning center assessment
+export function subscribeToTsunamiFlags(options: SubscriptionOptions<Earthquake>) {
+  return subscribeToEarthquakeEvent(EARTHQUAKE_EVENTS.TSUNAMI, options)
+}
+
+/**
+ * Retraction tombstones (needs the retraction schema)
+ * Tombstones have no location, so only the topic filter applies.
+ */
+export async function subscribeToRetractions(options: SubscriptionOptions<EarthquakeRetraction>): Promise<EarthquakeSubscription> {
+  if (!RETRACTION_CODEC.schemaId) {
+    throw new Error('NEXT_PUBLIC_RETRACTION_SCHEMA_ID is not set')
+  }
+
+  return subscribeWithLatestRecord(EARTHQUAKE_EVENTS.RETRACTED, RETRACTION_CODEC.schemaId, data => RETRACTION_CODEC.decode(data), options)
+}
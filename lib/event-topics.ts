@@ -0,0 +1,128 @@
+import { toEventSelector, toHex, type Hex } from 'viem'
+import { EARTHQUAKE_EVENT_PARAMS, EARTHQUAKE_EVENTS, MAGNITUDE_THRESHOLDS, REGION_TOPIC_PRECISION } from './constants'
+import { encodeGeohash, geohashCellsInBoundingBox, isPointInBoundingBox, type BoundingBox } from './geo'
+import { PUBLISH_EARTHQUAKE_CODEC } from './schema-codecs'
+import type { RevisedField } from './earthquake-revisions'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * Earthquake event types and their indexed topics
+ *
+ * Every event carries the magnitude (× 10), the geohash cell of the epicentre
+ * and the whole-magnitude band, so a subscriber can ask the node for just the
+ * region and magnitudes it shows instead of receiving every quake worldwide.
+ * Significant, PAGER and tsunami events let it ask for just the quakes that matter.
+ */
+
+export type EarthquakeEventId = (typeof EARTHQUAKE_EVENTS)[keyof typeof EARTHQUAKE_EVENTS]
+
+// Extra events and the condition (and source field) behind each
+const ALERT_EVENTS: Array<{ eventId: EarthquakeEventId; field: RevisedField; matches: (quake: Earthquake) => boolean }> = [
+  { eventId: EARTHQUAKE_EVENTS.SIGNIFICANT, field: 'magnitude', matches: quake => quake.magnitude >= MAGNITUDE_THRESHOLDS.STRONG },
+  { eventId: EARTHQUAKE_EVENTS.PAGER_ALERT, field: 'alert', matches: quake => quake.alert === 'orange' || quake.alert === 'red' },
+  { eventId: EARTHQUAKE_EVENTS.TSUNAMI, field: 'tsunami', matches: quake => quake.tsunami === true }
+]
+
+// Past this many cells a region subscribes to all of them and filters locally
+const MAX_REGION_TOPICS = 64
+
+// Highest band - M9 and above share it
+const MAX_MAGNITUDE_BAND = 9
+
+export interface EarthquakeFilter {
+  region?: BoundingBox
+  minMagnitude?: number
+  maxMagnitude?: number
+}
+
+// eth log filter topics: null matches anything, an array matches any of its values
+export type TopicFilter = Array<Hex | Hex[] | null>
+
+/**
+ * Solidity-style signature the event schema is registered with
+ */
+export function getEarthquakeEventSignature(eventId: string): string {
+  return `${eventId}(${EARTHQUAKE_EVENT_PARAMS.map(param => `${param.paramType} indexed ${param.name}`).join(', ')})`
+}
+
+// Magnitude × 10, rounded like the data field (negative magnitudes index as 0)
+export function magnitudeTopic(magnitude: number): Hex {
+  return toHex(Math.max(0, Math.round(magnitude * 10)), { size: 32 })
+}
+
+// Band of the magnitude as published (4.96 is stored as 5.0, so it is band 5)
+export function magnitudeBand(magnitude: number): number {
+  return Math.min(MAX_MAGNITUDE_BAND, Math.max(0, Math.floor(Math.round(magnitude * 10) / 10)))
+}
+
+export function regionTopic(latitude: number, longitude: number): Hex {
+  return toHex(encodeGeohash(latitude, longitude, REGION_TOPIC_PRECISION), { size: 32 })
+}
+
+/**
+ * Argument topics of an earthquake event, in EARTHQUAKE_EVENT_PARAMS order
+ * Without a quake (retractions of records published before snapshots were kept)
+ * every topic is zero, so only unfiltered subscribers see the event.
+ */
+export function earthquakeTopics(quake?: Pick<Earthquake, 'magnitude' | 'latitude' | 'longitude'>): Hex[] {
+  if (!quake) return EARTHQUAKE_EVENT_PARAMS.map(() => toHex(0, { size: 32 }))
+  return [
+    magnitudeTopic(quake.magnitude),
+    regionTopic(quake.latitude, quake.longitude),
+    toHex(magnitudeBand(quake.magnitude), { size: 32 })
+  ]
+}
+
+/**
+ * Topics to subscribe to for the events matching a filter, or undefined when
+ * the filter does not narrow anything (subscribe by event ID as usual)
+ * Topics are coarse - apply matchesEarthquakeFilter to what arrives.
+ */
+export function getEventTopicFilter(eventId: string, { region, minMagnitude, maxMagnitude }: EarthquakeFilter): TopicFilter | undefined {
+  const cells = region ? geohashCellsInBoundingBox(region, REGION_TOPIC_PRECISION, MAX_REGION_TOPICS) : null
+
+  const lowestBand = minMagnitude === undefined ? 0 : magnitudeBand(minMagnitude)
+  const highestBand = maxMagnitude === undefined ? MAX_MAGNITUDE_BAND : magnitudeBand(maxMagnitude)
+  const bands = lowestBand > 0 || highestBand < MAX_MAGNITUDE_BAND
+    ? Array.from({ length: Math.max(0, highestBand - lowestBand + 1) }, (_, i) => toHex(lowestBand + i, { size: 32 }))
+    : null
+
+  if (!cells && !bands) return undefined
+
+  return [
+    toEventSelector(getEarthquakeEventSignature(eventId)),
+    null,
+    cells?.map(cell => toHex(cell, { size: 32 })) ?? null,
+    bands
+  ]
+}
+
+/**
+ * Extra events a publication triggers besides Detected/Updated
+ * For a revision (`changes` given) an event is only repeated when its field changed.
+ * PAGER and tsunami events need a schema version that stores those fields.
+ */
+export function getAlertEventIds(quake: Earthquake, changes?: RevisedField[]): EarthquakeEventId[] {
+  return ALERT_EVENTS
+    .filter(({ field }) => field === 'magnitude' || PUBLISH_EARTHQUAKE_CODEC.version >= 2)
+    .filter(({ field, matches }) => matches(quake) && (!changes || changes.includes(field)))
+    .map(({ eventId }) => eventId)
+}
+
+/**
+ * Whether a record bundled with an alert event meets that event's condition
+ * (the bundled record is the latest publication, which may be another quake)
+ */
+export function matchesAlertEvent(eventId: EarthquakeEventId, quake: Earthquake): boolean {
+  const alert = ALERT_EVENTS.find(event => event.eventId === eventId)
+  return !alert || alert.matches(quake)
+}
+
+/**
+ * Exact client-side check behind the coarse topic filter
+ */
+export function matchesEarthquakeFilter(quake: Earthquake, { region, minMagnitude, maxMagnitude }: EarthquakeFilter): boolean {
+  return (minMagnitude === undefined || quake.magnitude >= minMagnitude) &&
+    (maxMagnitude === undefined || quake.magnitude <= maxMagnitude) &&
+    (!region || isPointInBoundingBox(quake.longitude, quake.latitude, region))
+}
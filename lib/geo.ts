@@ -0,0 +1,112 @@
+/**
+ * Geographic helpers shared by the oracle and the query layer
+ */
+
+const EARTH_RADIUS_KM = 6371
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Ray-casting point-in-polygon test on [lon, lat] vertices (planar - fine for regional polygons)
+ */
+export function isPointInPolygon(lon: number, lat: number, polygon: Array<[number, number]>): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * [west, south, east, north] in degrees - a box with west > east crosses the antimeridian
+ */
+export type BoundingBox = [number, number, number, number]
+
+export function isPointInBoundingBox(lon: number, lat: number, [west, south, east, north]: BoundingBox): boolean {
+  if (lat < south || lat > north) return false
+  return west <= east
+    ? lon >= west && lon <= east
+    : lon >= west || lon <= east
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz'
+
+/**
+ * Geohash of a point (https://en.wikipedia.org/wiki/Geohash)
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+  let [latMin, latMax, lonMin, lonMax] = [-90, 90, -180, 180]
+  let hash = ''
+  let bit = 0
+  let index = 0
+  let isLonBit = true
+
+  while (hash.length < precision) {
+    if (isLonBit) {
+      const mid = (lonMin + lonMax) / 2
+      index = index * 2 + (lon >= mid ? 1 : 0)
+      if (lon >= mid) lonMin = mid
+      else lonMax = mid
+    } else {
+      const mid = (latMin + latMax) / 2
+      index = index * 2 + (lat >= mid ? 1 : 0)
+      if (lat >= mid) latMin = mid
+      else latMax = mid
+    }
+    isLonBit = !isLonBit
+
+    if (++bit === 5) {
+      hash += GEOHASH_ALPHABET[index]
+      bit = 0
+      index = 0
+    }
+  }
+
+  return hash
+}
+
+/**
+ * Every geohash cell of the given precision that overlaps the box, or null when
+ * there are more than `maxCells` (callers should then not filter by cell)
+ */
+export function geohashCellsInBoundingBox(bbox: BoundingBox, precision: number, maxCells = Infinity): string[] | null {
+  const [west, south, east, north] = bbox
+  const lonBits = Math.ceil(precision * 5 / 2)
+  const cellWidth = 360 / 2 ** lonBits
+  const cellHeight = 180 / 2 ** (precision * 5 - lonBits)
+
+  // Split boxes that cross the antimeridian into two plain ones
+  const spans: Array<[number, number]> = west <= east ? [[west, east]] : [[west, 180], [-180, east]]
+  const columns = spans.reduce((sum, [from, to]) => sum + Math.floor((Math.min(to, 180 - 1e-9) + 180) / cellWidth) - Math.floor((from + 180) / cellWidth) + 1, 0)
+  const rows = Math.floor((Math.min(north, 90 - 1e-9) + 90) / cellHeight) - Math.floor((south + 90) / cellHeight) + 1
+  if (columns * rows > maxCells) return null
+
+  const cells = new Set<string>()
+  for (const [from, to] of spans) {
+    for (let lat = Math.floor((south + 90) / cellHeight) * cellHeight - 90; lat <= north; lat += cellHeight) {
+      for (let lon = Math.floor((from + 180) / cellWidth) * cellWidth - 180; lon <= to; lon += cellWidth) {
+        // Sample the cell centre so float error at the edges can't pick a neighbour
+        cells.add(encodeGeohash(Math.min(lat + cellHeight / 2, 90), Math.min(lon + cellWidth / 2, 180), precision))
+      }
+    }
+  }
+  return [...cells]
+}
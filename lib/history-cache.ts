@@ -0,0 +1,146 @@
+'use client'
+
+import type { Hex } from 'viem'
+import type { Earthquake, EarthquakeRetraction } from '@/types/earthquake'
+
+/**
+ * Browser cache of decoded on-chain records (IndexedDB)
+ *
+ * Records are append-only by index, so a decoded record never goes stale: it is
+ * kept under [schemaId, publisher, index] and only indexes the cache does not
+ * hold are read from chain (see lib/earthquake-history.ts). A stream is dropped
+ * when its schema or publisher is no longer configured, or when the chain holds
+ * fewer records than the cache (a redeployed or different network).
+ */
+
+// null: an empty record, or one that did not decode
+export type CachedRecord = Earthquake | EarthquakeRetraction | null
+
+export interface CachedStream {
+  schemaId: Hex
+  publisher: `0x${string}`
+}
+
+export interface HistoryCache {
+  /** Cached records of a stream, by index */
+  read(stream: CachedStream): Promise<Map<number, CachedRecord>>
+  write(stream: CachedStream, records: Array<[number, CachedRecord]>): Promise<void>
+  /** Drop every cached stream not in `streams` */
+  retain(streams: CachedStream[]): Promise<void>
+  drop(stream: CachedStream): Promise<void>
+  clear(): Promise<void>
+}
+
+const DB_NAME = 'earthquake-history'
+// Bump when the decoded shape changes: upgrading deletes every cached record
+const DB_VERSION = 1
+const RECORDS = 'records'
+const STREAMS = 'streams'
+
+interface RecordRow extends CachedStream {
+  index: number
+  record: CachedRecord
+}
+
+function streamKey({ schemaId, publisher }: CachedStream): [string, string] {
+  return [schemaId.toLowerCase(), publisher.toLowerCase()]
+}
+
+function recordRange(stream: CachedStream): IDBKeyRange {
+  const [schemaId, publisher] = streamKey(stream)
+  return IDBKeyRange.bound([schemaId, publisher, 0], [schemaId, publisher, Infinity])
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+class IndexedDBHistoryCache implements HistoryCache {
+  constructor(private db: IDBDatabase) {}
+
+  async read(stream: CachedStream): Promise<Map<number, CachedRecord>> {
+    const tx = this.db.transaction(RECORDS, 'readonly')
+    const rows = await request(tx.objectStore(RECORDS).getAll(recordRange(stream))) as RecordRow[]
+    return new Map(rows.map(row => [row.index, row.record]))
+  }
+
+  async write(stream: CachedStream, records: Array<[number, CachedRecord]>): Promise<void> {
+    if (records.length === 0) return
+    const [schemaId, publisher] = streamKey(stream)
+    const tx = this.db.transaction([RECORDS, STREAMS], 'readwrite')
+    const store = tx.objectStore(RECORDS)
+    records.forEach(([index, record]) => store.put({ schemaId, publisher, index, record }))
+    tx.objectStore(STREAMS).put({ schemaId, publisher })
+    await completion(tx)
+  }
+
+  async retain(streams: CachedStream[]): Promise<void> {
+    const keep = new Set(streams.map(stream => streamKey(stream).join(':')))
+    const tx = this.db.transaction(STREAMS, 'readonly')
+    const cached = await request(tx.objectStore(STREAMS).getAll()) as CachedStream[]
+    const stale = cached.filter(stream => !keep.has(streamKey(stream).join(':')))
+    for (const stream of stale) {
+      console.log(`🗑️  Dropping cached records of ${stream.schemaId} from ${stream.publisher} (no longer configured)`)
+      await this.drop(stream)
+    }
+  }
+
+  async drop(stream: CachedStream): Promise<void> {
+    const tx = this.db.transaction([RECORDS, STREAMS], 'readwrite')
+    tx.objectStore(RECORDS).delete(recordRange(stream))
+    tx.objectStore(STREAMS).delete(streamKey(stream))
+    await completion(tx)
+  }
+
+  async clear(): Promise<void> {
+    const tx = this.db.transaction([RECORDS, STREAMS], 'readwrite')
+    tx.objectStore(RECORDS).clear()
+    tx.objectStore(STREAMS).clear()
+    await completion(tx)
+  }
+}
+
+let cachePromise: Promise<HistoryCache | null> | null = null
+
+/**
+ * Open the shared cache (null where IndexedDB is unavailable, e.g. server-side or private browsing)
+ */
+export function openHistoryCache(): Promise<HistoryCache | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  cachePromise ??= new Promise<HistoryCache | null>(resolve => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION)
+    open.onupgradeneeded = () => {
+      const db = open.result
+      Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name))
+      db.createObjectStore(RECORDS, { keyPath: ['schemaId', 'publisher', 'index'] })
+      db.createObjectStore(STREAMS, { keyPath: ['schemaId', 'publisher'] })
+    }
+    open.onsuccess = () => resolve(new IndexedDBHistoryCache(open.result))
+    open.onerror = () => {
+      console.warn('⚠️  History cache unavailable, reading everything from chain:', open.error)
+      resolve(null)
+    }
+  })
+  return cachePromise
+}
+
+/**
+ * Empty the cache - the next load reads the whole history from chain
+ */
+export async function clearHistoryCache(): Promise<void> {
+  const cache = await openHistoryCache()
+  await cache?.clear()
+  console.log('🗑️  History cache cleared')
+}
@@ -0,0 +1,317 @@
+import { existsSync, readFileSync } from 'fs'
+import { relative, resolve } from 'path'
+import { isPointInBoundingBox, isPointInPolygon, type BoundingBox } from './geo'
+import { USER_AGENT } from './sources/source'
+import type { Earthquake } from '@/types/earthquake'
+
+/**
+ * Declarative oracle configuration
+ *
+ * Loaded from a JSON file (ORACLE_CONFIG_PATH, default `oracle.config.json`)
+ * with ORACLE_* environment variables layered on top, then validated. Each
+ * deployment can publish its own slice of the catalog (regions, magnitude and
+ * depth ranges) by giving it a different file or overrides.
+ */
+
+export type FeedWindow = 'hour' | 'day' | 'week' | 'month'
+
+export type OracleRegion =
+  | { name: string; bbox: BoundingBox }                        // [west, south, east, north]
+  | { name: string; polygon: Array<[number, number]> }         // [lon, lat] vertices
+
+export interface Range {
+  min?: number
+  max?: number
+}
+
+export interface OracleConfig {
+  name: string                   // Deployment label, echoed in sync responses
+  magnitude: Range               // Inclusive; magnitude.min replaces the old MIN_MAGNITUDE
+  depthKm: Range                 // Inclusive
+  regions: OracleRegion[]        // Quake must fall in at least one (empty = whole globe)
+  feedWindow: FeedWindow         // USGS summary feed, also the revision look-back window
+  userAgent: string
+  bootstrapWindowMs: number      // How far back the very first run (no cursor) starts
+  receiptTimeoutMs: number
+  maxInFlight: number
+  maxItemsPerRun: number | null  // Cap on published items per run (null = unlimited)
+}
+
+export const FEED_WINDOW_MS: Record<FeedWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+}
+
+// Minimum magnitude guide (2.0 for more data, 2.5 for less):
+// - 1.0+: Hundreds per hour (very busy)
+// - 2.0+: ~100-200 per day (good activity)
+// - 2.5+: ~50-100 per day (moderate)
+// - 4.0+: ~5-20 per day (major events only)
+export const DEFAULT_ORACLE_CONFIG: OracleConfig = {
+  name: 'default',
+  magnitude: { min: 2.0 },
+  depthKm: {},
+  regions: [],
+  feedWindow: 'day',
+  userAgent: USER_AGENT,
+  bootstrapWindowMs: 60 * 60 * 1000,
+  receiptTimeoutMs: 30_000,
+  maxInFlight: 4,
+  maxItemsPerRun: null
+}
+
+const DEFAULT_CONFIG_PATH = 'oracle.config.json'
+
+// ORACLE_* overrides: env variable → config field
+const NUMBER_OVERRIDES = {
+  ORACLE_MIN_MAGNITUDE: ['magnitude', 'min'],
+  ORACLE_MAX_MAGNITUDE: ['magnitude', 'max'],
+  ORACLE_MIN_DEPTH_KM: ['depthKm', 'min'],
+  ORACLE_MAX_DEPTH_KM: ['depthKm', 'max'],
+  ORACLE_BOOTSTRAP_WINDOW_MS: ['bootstrapWindowMs'],
+  ORACLE_RECEIPT_TIMEOUT_MS: ['receiptTimeoutMs'],
+  ORACLE_MAX_IN_FLIGHT: ['maxInFlight'],
+  ORACLE_MAX_ITEMS_PER_RUN: ['maxItemsPerRun']
+} as const
+
+const STRING_OVERRIDES = {
+  ORACLE_NAME: 'name',
+  ORACLE_FEED_WINDOW: 'feedWindow',
+  ORACLE_USER_AGENT: 'userAgent'
+} as const
+
+/**
+ * Thrown when the config file or overrides are invalid; lists every problem at once
+ */
+export class OracleConfigError extends Error {
+  constructor(public readonly problems: string[], origin: string) {
+    super(`Invalid oracle config (${origin}):\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'OracleConfigError'
+  }
+}
+
+export interface LoadedOracleConfig {
+  config: OracleConfig
+  file: string | null            // Config file that was read, if any
+  overrides: string[]            // ORACLE_* variables that were applied
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function validateRange(range: unknown, field: string, problems: string[], bounds?: [number, number]) {
+  if (typeof range !== 'object' || range === null || Array.isArray(range)) {
+    problems.push(`${field} must be an object like { "min": 2.5, "max": 7 }`)
+    return
+  }
+
+  const { min, max } = range as Range
+  for (const [key, value] of [['min', min], ['max', max]] as const) {
+    if (value === undefined) continue
+    if (!isFiniteNumber(value)) {
+      problems.push(`${field}.${key} must be a number, got ${JSON.stringify(value)}`)
+    } else if (bounds && (value < bounds[0] || value > bounds[1])) {
+      problems.push(`${field}.${key} must be between ${bounds[0]} and ${bounds[1]}, got ${value}`)
+    }
+  }
+  if (isFiniteNumber(min) && isFiniteNumber(max) && min > max) {
+    problems.push(`${field}.min (${min}) is greater than ${field}.max (${max})`)
+  }
+}
+
+function isLonLat(point: unknown): point is [number, number] {
+  return Array.isArray(point) && point.length === 2 &&
+    isFiniteNumber(point[0]) && Math.abs(point[0]) <= 180 &&
+    isFiniteNumber(point[1]) && Math.abs(point[1]) <= 90
+}
+
+function validateRegion(region: unknown, index: number, problems: string[]) {
+  const field = `regions[${index}]`
+  if (typeof region !== 'object' || region === null) {
+    problems.push(`${field} must be an object with "name" and "bbox" or "polygon"`)
+    return
+  }
+
+  const { name, bbox, polygon } = region as { name?: unknown; bbox?: unknown; polygon?: unknown }
+  if (typeof name !== 'string' || !name) problems.push(`${field}.name must be a non-empty string`)
+
+  if ((bbox === undefined) === (polygon === undefined)) {
+    problems.push(`${field} needs exactly one of "bbox" or "polygon"`)
+  } else if (bbox !== undefined) {
+    if (!Array.isArray(bbox) || bbox.length !== 4 || !isLonLat([bbox[0], bbox[1]]) || !isLonLat([bbox[2], bbox[3]])) {
+      problems.push(`${field}.bbox must be [west, south, east, north] in degrees`)
+    } else if (bbox[1] > bbox[3]) {
+      problems.push(`${field}.bbox south (${bbox[1]}) is north of north (${bbox[3]})`)
+    }
+  } else if (!Array.isArray(polygon) || polygon.length < 3 || !polygon.every(isLonLat)) {
+    problems.push(`${field}.polygon must have at least 3 [lon, lat] vertices in degrees`)
+  }
+}
+
+/**
+ * Validate a parsed config, returning every problem found
+ */
+export function validateOracleConfig(config: OracleConfig): string[] {
+  const problems: string[] = []
+
+  if (typeof config.name !== 'string' || !config.name) problems.push('name must be a non-empty string')
+  validateRange(config.magnitude, 'magnitude', problems, [-2, 10])
+  validateRange(config.depthKm, 'depthKm', problems, [-10, 1000])
+
+  if (!Array.isArray(config.regions)) {
+    problems.push('regions must be an array')
+  } else {
+    config.regions.forEach((region, i) => validateRegion(region, i, problems))
+  }
+
+  if (!(config.feedWindow in FEED_WINDOW_MS)) {
+    problems.push(`feedWindow must be one of ${Object.keys(FEED_WINDOW_MS).join(', ')}, got ${JSON.stringify(config.feedWindow)}`)
+  }
+  if (typeof config.userAgent !== 'string' || !config.userAgent.trim()) {
+    problems.push('userAgent must be a non-empty string')
+  }
+
+  const positive: Array<[keyof OracleConfig, unknown]> = [
+    ['bootstrapWindowMs', config.bootstrapWindowMs],
+    ['receiptTimeoutMs', config.receiptTimeoutMs],
+    ['maxInFlight', config.maxInFlight]
+  ]
+  for (const [field, value] of positive) {
+    if (!isFiniteNumber(value) || value <= 0) problems.push(`${field} must be a positive number, got ${JSON.stringify(value)}`)
+  }
+  if (isFiniteNumber(config.maxInFlight) && !Number.isInteger(config.maxInFlight)) {
+    problems.push(`maxInFlight must be a whole number, got ${config.maxInFlight}`)
+  }
+  if (config.maxItemsPerRun !== null &&
+    (!isFiniteNumber(config.maxItemsPerRun) || !Number.isInteger(config.maxItemsPerRun) || config.maxItemsPerRun < 1)) {
+    problems.push(`maxItemsPerRun must be a whole number >= 1 or null, got ${JSON.stringify(config.maxItemsPerRun)}`)
+  }
+  if (isFiniteNumber(config.bootstrapWindowMs) && config.feedWindow in FEED_WINDOW_MS &&
+    config.bootstrapWindowMs > FEED_WINDOW_MS[config.feedWindow]) {
+    problems.push(`bootstrapWindowMs (${config.bootstrapWindowMs}) reaches further back than the ${config.feedWindow} feed`)
+  }
+
+  return problems
+}
+
+/**
+ * Load, merge and validate the oracle config
+ * Throws OracleConfigError listing every problem if the result is invalid.
+ */
+export function loadOracleConfig(env: NodeJS.ProcessEnv = process.env): LoadedOracleConfig {
+  const explicitPath = env.ORACLE_CONFIG_PATH?.trim()
+  const path = resolve(process.cwd(), explicitPath || DEFAULT_CONFIG_PATH)
+  const problems: string[] = []
+  let fileConfig: Partial<OracleConfig> = {}
+  let file: string | null = null
+
+  if (existsSync(path)) {
+    file = path
+    try {
+      fileConfig = JSON.parse(readFileSync(path, 'utf8'))
+    } catch (error) {
+      throw new OracleConfigError([`could not parse JSON: ${error instanceof Error ? error.message : error}`], path)
+    }
+
+    const unknownKeys = Object.keys(fileConfig).filter(key => !(key in DEFAULT_ORACLE_CONFIG))
+    unknownKeys.forEach(key => problems.push(`unknown field "${key}"`))
+  } else if (explicitPath) {
+    throw new OracleConfigError([`file not found: ${path}`], 'ORACLE_CONFIG_PATH')
+  }
+
+  const config: OracleConfig = {
+    ...DEFAULT_ORACLE_CONFIG,
+    ...fileConfig,
+    magnitude: { ...(fileConfig.magnitude ?? DEFAULT_ORACLE_CONFIG.magnitude) },
+    depthKm: { ...(fileConfig.depthKm ?? DEFAULT_ORACLE_CONFIG.depthKm) }
+  }
+  const overrides: string[] = []
+  const target = config as unknown as Record<string, unknown>
+
+  for (const [variable, [field, key]] of Object.entries(NUMBER_OVERRIDES) as Array<[string, readonly string[]]>) {
+    const raw = env[variable]?.trim()
+    if (!raw) continue
+
+    const value = raw.toLowerCase() === 'null' ? null : Number(raw)
+    if (value !== null && !Number.isFinite(value)) {
+      problems.push(`${variable} must be a number, got "${raw}"`)
+      continue
+    }
+
+    if (key) {
+      (target[field] as Record<string, unknown>)[key] = value ?? undefined
+    } else {
+      target[field] = value
+    }
+    overrides.push(variable)
+  }
+
+  for (const [variable, field] of Object.entries(STRING_OVERRIDES)) {
+    const raw = env[variable]?.trim()
+    if (!raw) continue
+    target[field] = raw
+    overrides.push(variable)
+  }
+
+  const rawRegions = env.ORACLE_REGIONS?.trim()
+  if (rawRegions) {
+    try {
+      config.regions = JSON.parse(rawRegions)
+      overrides.push('ORACLE_REGIONS')
+    } catch {
+      problems.push('ORACLE_REGIONS must be a JSON array of regions')
+    }
+  }
+
+  problems.push(...validateOracleConfig(config))
+  if (problems.length > 0) {
+    throw new OracleConfigError(problems, [file, ...overrides].filter(Boolean).join(' + ') || 'defaults')
+  }
+
+  return { config, file, overrides }
+}
+
+/**
+ * JSON-friendly summary for sync responses: the effective config and where it came from
+ */
+export function describeOracleConfig({ config, file, overrides }: LoadedOracleConfig) {
+  return {
+    ...config,
+    file: file ? relative(process.cwd(), file) : null,
+    overrides
+  }
+}
+
+let loaded: LoadedOracleConfig | null = null
+
+/**
+ * Config for the current process (loaded and validated once)
+ */
+export function getOracleConfig(): LoadedOracleConfig {
+  if (!loaded) loaded = loadOracleConfig()
+  return loaded
+}
+
+function inRange(value: number, range: Range): boolean {
+  return (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max)
+}
+
+function inRegion(quake: Earthquake, region: OracleRegion): boolean {
+  if ('bbox' in region) {
+    return isPointInBoundingBox(quake.longitude, quake.latitude, region.bbox)
+  }
+  return isPointInPolygon(quake.longitude, quake.latitude, region.polygon)
+}
+
+/**
+ * Whether a quake falls in this deployment's slice of the catalog
+ */
+export function matchesOracleConfig(quake: Earthquake, config: OracleConfig): boolean {
+  return inRange(quake.magnitude, config.magnitude) &&
+    inRange(quake.depth, config.depthKm) &&
+    (config.regions.length === 0 || config.regions.some(region => inRegion(quake, region)))
+}
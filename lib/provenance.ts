@@ -0,0 +1,104 @@
+import { keccak256, stringToBytes, toHex } from 'viem'
+import { PROVENANCE_CODEC, type SchemaCodec } from './schema-codecs'
+import { createUSGSGeoJSONSource, USGS_SUMMARY_FEED, type EarthquakeSource } from './sources'
+import type { PublishDataStream } from './publisher'
+import type { Earthquake, EarthquakeProvenance, SourceRecord } from '@/types/earthquake'
+
+/**
+ * Provenance of published earthquakes
+ *
+ * Every source adapter keeps the raw record it parsed an earthquake from, in a
+ * canonical text form (sorted-key JSON, or the FDSN text line). The oracle
+ * archives that record in the sync state store and publishes its keccak256
+ * hash in the provenance schema, under the same data ID as the earthquake. Anyone
+ * holding the record can then check it against the hash, and parse it again to
+ * check the on-chain values field by field.
+ */
+
+export interface FieldMismatch {
+  field: keyof Earthquake
+  onChain: unknown
+  source: unknown               // The source record's value at on-chain precision
+}
+
+export interface ProvenanceCheck {
+  hashMatches?: boolean         // Record hash equals the on-chain source hash (undefined without a provenance record)
+  mismatches: FieldMismatch[]
+}
+
+// Off-chain metadata that is never part of the published record
+const UNPUBLISHED_FIELDS = new Set<keyof Earthquake>(['sourceIds', 'retracted', 'sourceRecord', 'attestations', 'disagreements'])
+
+/**
+ * Companion record for an earthquake, or undefined when its source kept no raw record
+ */
+export function toProvenance(quake: Earthquake): EarthquakeProvenance | undefined {
+  const record = quake.sourceRecord
+  if (!record) return undefined
+
+  return {
+    earthquakeId: quake.earthquakeId,
+    sourceHash: record.hash,
+    source: record.source,
+    format: record.format,
+    fetchedAt: record.fetchedAt
+  }
+}
+
+/**
+ * Provenance data stream for a publish job (undefined until the provenance schema is registered)
+ */
+export function toProvenanceStream(quake: Earthquake): PublishDataStream | undefined {
+  const provenance = toProvenance(quake)
+  if (!PROVENANCE_CODEC.schemaId || !provenance) return undefined
+
+  return {
+    id: toHex(quake.earthquakeId, { size: 32 }),
+    schemaId: PROVENANCE_CODEC.schemaId,
+    data: PROVENANCE_CODEC.encode(provenance)
+  }
+}
+
+/**
+ * Hash of a record's body, recomputed rather than trusted from the archive
+ */
+export function hashSourceRecord(record: Pick<SourceRecord, 'body'>): `0x${string}` {
+  return keccak256(stringToBytes(record.body))
+}
+
+/**
+ * The configured source a record came from
+ * GeoJSON records can always be parsed, e.g. backfilled ones when `usgs` is not in EARTHQUAKE_SOURCES.
+ */
+export function findRecordSource(record: Pick<SourceRecord, 'source' | 'format'>, sources: EarthquakeSource[]): EarthquakeSource | undefined {
+  return sources.find(source => source.name === record.source) ??
+    (record.format === 'geojson' ? createUSGSGeoJSONSource({ name: record.source, url: USGS_SUMMARY_FEED }) : undefined)
+}
+
+/**
+ * Check an on-chain earthquake against a source record
+ * The record is parsed again by its source and encoded with the on-chain codec, so
+ * values are compared at the precision they were published with. Throws when
+ * the record no longer parses or its values cannot be encoded.
+ */
+export function checkProvenance(
+  onChain: Earthquake,
+  codec: SchemaCodec<Earthquake>,
+  record: SourceRecord,
+  source: EarthquakeSource,
+  provenance?: EarthquakeProvenance
+): ProvenanceCheck {
+  const parsed = source.parseRecord(record)
+  if (!parsed) throw new Error(`${record.source} record no longer parses as an earthquake`)
+
+  const expected = codec.decode(codec.encode(parsed))
+  const fields = new Set([...Object.keys(expected), ...Object.keys(onChain)] as Array<keyof Earthquake>)
+  const mismatches = [...fields]
+    .filter(field => !UNPUBLISHED_FIELDS.has(field) && !Object.is(onChain[field], expected[field]))
+    .map(field => ({ field, onChain: onChain[field], source: expected[field] }))
+
+  return {
+    ...(provenance && { hashMatches: hashSourceRecord(record).toLowerCase() === provenance.sourceHash.toLowerCase() }),
+    mismatches
+  }
+}
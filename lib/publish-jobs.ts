@@ -0,0 +1,62 @@
+import { toHex } from 'viem'
+import { EARTHQUAKE_EVENTS } from './constants'
+import { earthquakeTopics, getAlertEventIds } from './event-topics'
+import { toProvenanceStream } from './provenance'
+import { PUBLISH_EARTHQUAKE_CODEC, RETRACTION_CODEC } from './schema-codecs'
+import type { PublishItem } from './publish-retries'
+import type { PublishJob } from './publisher'
+
+/**
+ * Turn a publish item into its on-chain write
+ *
+ * The data ID is the earthquake ID as bytes32, so revisions overwrite the
+ * original record and retractions write a tombstone under the same ID in the
+ * retraction schema. Earthquakes are written with the newest configured schema
+ * version. Every event's indexed topics are the magnitude (x10), region cell and
+ * magnitude band; significant, PAGER and tsunami events ride along in the same
+ * transaction (see lib/event-topics.ts). With the provenance schema registered, the
+ * hash of the source record follows in its own transaction (see lib/provenance.ts).
+ * Shared by the cron route and the backfill command so both encode identically.
+ * Throws a SchemaEncodingError for values the schema cannot hold.
+ */
+export function toPublishJob(item: PublishItem, now: number): PublishJob {
+  const hexId = toHex(item.earthquakeId, { size: 32 })
+
+  if (item.type === 'retracted') {
+    if (!RETRACTION_CODEC.schemaId) {
+      throw new Error('Cannot publish a retraction: NEXT_PUBLIC_RETRACTION_SCHEMA_ID is not set')
+    }
+
+    return {
+      key: item.earthquakeId,
+      dataStream: {
+        id: hexId,
+        schemaId: RETRACTION_CODEC.schemaId,
+        data: RETRACTION_CODEC.encode({ earthquakeId: item.earthquakeId, retractedAt: now, reason: item.reason })
+      },
+      eventStreams: [{
+        id: EARTHQUAKE_EVENTS.RETRACTED,
+        argumentTopics: earthquakeTopics(item.record.published),
+        data: '0x'
+      }]
+    }
+  }
+
+  const argumentTopics = earthquakeTopics(item.quake)
+  const eventIds = item.type === 'updated'
+    ? [EARTHQUAKE_EVENTS.UPDATED, ...getAlertEventIds(item.quake, item.changes)]
+    : [EARTHQUAKE_EVENTS.DETECTED, ...getAlertEventIds(item.quake)]
+
+  return {
+    key: item.earthquakeId,
+    // Data stream stores the earthquake record
+    dataStream: {
+      id: hexId,
+      schemaId: PUBLISH_EARTHQUAKE_CODEC.schemaId!,
+      data: PUBLISH_EARTHQUAKE_CODEC.encode(item.quake)
+    },
+    provenanceStream: toProvenanceStream(item.quake),
+    // Event streams trigger WebSocket notifications
+    eventStreams: eventIds.map(id => ({ id, argumentTopics, data: '0x' }))
+  }
+}
@@ -0,0 +1,77 @@
+import { PUBLISH_RETRY } from './constants'
+import type { RevisedField } from './earthquake-revisions'
+import type { PendingPublish } from './publisher'
+import type { ProcessedEarthquake } from './sync-state'
+import type { Earthquake, RetractionReason } from '@/types/earthquake'
+
+/**
+ * One on-chain write the oracle owes: a new quake, a revision or a retraction
+ */
+export type PublishItem =
+  | { type: 'new' | 'updated'; earthquakeId: string; quake: Earthquake; changes: RevisedField[] }
+  | { type: 'retracted'; earthquakeId: string; record: ProcessedEarthquake; reason: RetractionReason }
+
+/**
+ * A publish that failed, waiting in the retry queue (or dead-lettered)
+ */
+export interface FailedPublish {
+  earthquakeId: string
+  item: PublishItem              // Everything needed to publish it again
+  attempts: number               // Failed attempts so far
+  firstFailedAt: number
+  lastFailedAt: number
+  lastError: string
+  nextAttemptAt: number | null   // Not retried before this time (null once dead-lettered)
+  deadLettered: boolean          // Out of attempts - only a manual replay requeues it
+  pending?: PendingPublish       // Last attempt timed out - checked before publishing again
+}
+
+/**
+ * Backoff before the next attempt: BASE_DELAY_MS doubled per failure, capped at MAX_DELAY_MS
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(PUBLISH_RETRY.BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), PUBLISH_RETRY.MAX_DELAY_MS)
+}
+
+/**
+ * Record a failed attempt, starting a new queue entry or advancing an existing one
+ * Permanent failures (retrying cannot help, e.g. a value the schema cannot hold) are dead-lettered at once.
+ * `pending` keeps the transactions of an attempt that timed out, which may still be mined.
+ */
+export function recordFailure(
+  item: PublishItem,
+  error: string,
+  now: number,
+  existing?: FailedPublish,
+  permanent = false,
+  pending?: PendingPublish
+): FailedPublish {
+  const attempts = (existing?.attempts ?? 0) + 1
+  const deadLettered = permanent || attempts >= PUBLISH_RETRY.MAX_ATTEMPTS
+
+  return {
+    earthquakeId: item.earthquakeId,
+    item,
+    attempts,
+    firstFailedAt: existing?.firstFailedAt ?? now,
+    lastFailedAt: now,
+    lastError: error,
+    nextAttemptAt: deadLettered ? null : now + getRetryDelay(attempts),
+    deadLettered,
+    ...(pending && { pending })
+  }
+}
+
+/**
+ * Whether a queued item should be retried in this run
+ */
+export function isRetryDue(entry: FailedPublish, now: number): boolean {
+  return !entry.deadLettered && entry.nextAttemptAt !== null && entry.nextAttemptAt <= now
+}
+
+/**
+ * Manual replay: give a (dead-lettered) item a fresh set of attempts, due immediately
+ */
+export function requeue(entry: FailedPublish): FailedPublish {
+  return { ...entry, attempts: 0, nextAttemptAt: 0, deadLettered: false }
+}
@@ -0,0 +1,95 @@
+import { AGREEMENT_TOLERANCE } from './constants'
+import { distanceKm } from './geo'
+import type { AgreementIssue, Attestation, Earthquake } from '@/types/earthquake'
+
+/**
+ * Cross-oracle agreement
+ *
+ * The dashboard can read the same schema from several independent oracles
+ * (NEXT_PUBLIC_PUBLISHER_ADDRESSES, or the publishers a client was given). Their
+ * records are merged by earthquakeId: the values shown come from the
+ * highest-priority publisher - the earliest in that list - that published the
+ * quake, every publisher's magnitude and epicentre are kept as attestations, and
+ * values that differ beyond AGREEMENT_TOLERANCE are flagged. A quake counts as
+ * retracted only once every publisher that attested it has retracted it.
+ */
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+// Position in the configured publishers (unknown publishers rank last)
+function priorityOf(publisher: string, publishers: readonly string[]): number {
+  const index = publishers.findIndex(address => isSameAddress(address, publisher))
+  return index < 0 ? publishers.length : index
+}
+
+/**
+ * Fields on which any two attestations differ beyond the tolerance
+ */
+export function getDisagreements(attestations: Attestation[]): AgreementIssue[] {
+  const issues = new Set<AgreementIssue>()
+
+  for (let i = 0; i < attestations.length; i++) {
+    for (let j = i + 1; j < attestations.length; j++) {
+      const [a, b] = [attestations[i], attestations[j]]
+      // Compare at on-chain precision so float noise is never a disagreement
+      if (Math.abs(Math.round(a.magnitude * 10) - Math.round(b.magnitude * 10)) > AGREEMENT_TOLERANCE.MAGNITUDE * 10) {
+        issues.add('magnitude')
+      }
+      if (distanceKm(a.latitude, a.longitude, b.latitude, b.longitude) > AGREEMENT_TOLERANCE.EPICENTRE_KM) {
+        issues.add('location')
+      }
+    }
+  }
+
+  return [...issues]
+}
+
+function withAgreement(quake: Earthquake, attestations: Attestation[]): Earthquake {
+  const disagreements = getDisagreements(attestations)
+  const merged: Earthquake = { ...quake, attestations }
+
+  if (disagreements.length > 0) merged.disagreements = disagreements
+  else delete merged.disagreements
+
+  if (attestations.every(attestation => attestation.retracted)) merged.retracted = true
+  else delete merged.retracted
+
+  return merged
+}
+
+/**
+ * Merge one publisher's record into what is known about the quake
+ * `publishers` is the configured publisher list, highest priority first.
+ * The record's own `retracted` flag marks that publisher's retraction.
+ */
+export function withAttestation(existing: Earthquake | undefined, record: Earthquake, publisher: `0x${string}`, publishers: readonly `0x${string}`[]): Earthquake {
+  const attestation: Attestation = {
+    publisher,
+    magnitude: record.magnitude,
+    latitude: record.latitude,
+    longitude: record.longitude,
+    ...(record.retracted && { retracted: true })
+  }
+  const attestations = [
+    ...(existing?.attestations ?? []).filter(other => !isSameAddress(other.publisher, publisher)),
+    attestation
+  ].sort((a, b) => priorityOf(a.publisher, publishers) - priorityOf(b.publisher, publishers))
+
+  // Shown values come from the highest-priority attesting publisher
+  const base = !existing || isSameAddress(attestations[0].publisher, publisher) ? record : existing
+  return withAgreement(base, attestations)
+}
+
+/**
+ * Record that a publisher retracted the quake (no change if it never attested it)
+ */
+export function withRetraction(existing: Earthquake, publisher: `0x${string}`): Earthquake {
+  const attestations = existing.attestations ?? []
+  if (!attestations.some(attestation => isSameAddress(attestation.publisher, publisher))) return existing
+
+  return withAgreement(existing, attestations.map(attestation => isSameAddress(attestation.publisher, publisher)
+    ? { ...attestation, retracted: true }
+    : attestation))
+}
@@ -0,0 +1,362 @@
+import { SDK } from '@somnia-chain/streams'
+import { encodeFunctionData, type Abi, type Address, type Hex, type PublicClient } from 'viem'
+import { getPublicClient, getWalletClient } from '@/lib/sdk'
+
+/**
+ * Concurrent, nonce-managed publisher for the oracle
+ *
+ * Every job is its own `publishDataAndEmitEvents` transaction (one data stream
+ * and its events), so each earthquake ID is still written as its own KV entry.
+ * A job's provenance record follows in a second transaction (`esstores`, no
+ * events) once the earthquake is mined: a call writing both streams only kept
+ * the last one. Nonces are assigned locally, which lets several transactions be
+ * in flight at once; receipts are awaited in parallel, and a transaction that
+ * sits unmined for too long is replaced at the same nonce with higher fees.
+ */
+
+// Mirrors the SDK's (unexported) stream types
+export interface PublishDataStream {
+  id: Hex
+  schemaId: Hex
+  data: Hex
+}
+
+export interface PublishEventStream {
+  id: string
+  argumentTopics: Hex[]
+  data: Hex
+}
+
+export interface PublishJob {
+  key: string                    // Earthquake ID - used for logging and results
+  dataStream: PublishDataStream
+  provenanceStream?: PublishDataStream // Source record hash under the same data ID (lib/provenance.ts), sent after the job
+  eventStreams: PublishEventStream[]
+}
+
+export type PublishStatus =
+  | 'confirmed'                  // Mined successfully
+  | 'reverted'                   // Mined, but the call reverted
+  | 'timeout'                    // Broadcast but not mined before the receipt timeout
+  | 'failed'                     // Never broadcast (gas estimation or send failed)
+
+export interface PublishResult {
+  key: string
+  status: PublishStatus
+  txHash?: Hex                   // Hash of the transaction that was mined (or the last one sent)
+  txHashes?: Hex[]               // Every transaction sent at `nonce` - after a timeout, any of them may still be mined
+  nonce?: number
+  attempts: number               // Transactions sent at this nonce, including gas bumps
+  blockNumber?: bigint
+  error?: string
+  provenanceTxHash?: Hex         // Mined provenance transaction, for jobs with a provenance stream
+  provenanceError?: string       // The earthquake was published but its provenance record was not
+}
+
+/**
+ * A timed-out publish whose transactions may still be mined
+ */
+export interface PendingPublish {
+  nonce: number
+  txHashes: Hex[]
+}
+
+export type PendingPublishOutcome =
+  | { status: 'confirmed'; txHash: Hex; blockNumber: bigint }
+  | { status: 'reverted' }       // Mined, but the call reverted - publishing again is safe
+  | { status: 'dropped' }        // The nonce went to another transaction - publishing again is safe
+  | { status: 'pending' }        // Nonce not used yet - publishing again could write the record twice
+
+export interface GasEstimate {
+  key: string
+  gas?: bigint
+  error?: string                 // The call would revert (or estimation failed)
+}
+
+export interface PublisherOptions {
+  maxInFlight?: number           // Transactions awaiting receipts at once
+  receiptTimeoutMs?: number      // Give up on a job this long after its first send
+  stuckAfterMs?: number          // Replace with higher fees after this long without a receipt
+  gasBumpPercent?: number        // Fee increase per replacement (most nodes require >= 10)
+  maxGasBumps?: number
+  pollIntervalMs?: number
+}
+
+const DEFAULT_OPTIONS: Required<PublisherOptions> = {
+  maxInFlight: 4,
+  receiptTimeoutMs: 60_000,
+  stuckAfterMs: 15_000,
+  gasBumpPercent: 25,
+  maxGasBumps: 3,
+  pollIntervalMs: 1_000
+}
+
+interface Fees {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function bumpFees(previous: Fees, current: Fees, percent: number): Fees {
+  const bump = (value: bigint) => value * BigInt(100 + percent) / BigInt(100)
+  const max = (a: bigint, b: bigint) => a > b ? a : b
+  return {
+    maxFeePerGas: max(bump(previous.maxFeePerGas), current.maxFeePerGas),
+    maxPriorityFeePerGas: max(bump(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas)
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage ?? error.message
+  }
+  return String(error)
+}
+
+/**
+ * Streams protocol contract for the connected chain (read-only, no wallet needed)
+ */
+async function getProtocolContract(publicClient: PublicClient): Promise<{ address: Hex; abi: Abi }> {
+  const protocolInfo = await new SDK({ public: publicClient }).streams.getSomniaDataStreamsProtocolInfo()
+  if (!protocolInfo || protocolInfo instanceof Error) {
+    throw new Error('Failed to get Somnia Data Streams protocol info')
+  }
+  return { address: protocolInfo.address as Hex, abi: protocolInfo.abi as Abi }
+}
+
+function encodePublishCall(abi: Abi, job: PublishJob): Hex {
+  return encodeFunctionData({
+    abi,
+    functionName: 'publishDataAndEmitEvents',
+    args: [[job.dataStream], job.eventStreams]
+  })
+}
+
+// What the SDK's `streams.set` sends: data only, no events
+function encodeProvenanceCall(abi: Abi, provenanceStream: PublishDataStream): Hex {
+  return encodeFunctionData({
+    abi,
+    functionName: 'esstores',
+    args: [[provenanceStream]]
+  })
+}
+
+/**
+ * Estimate gas for each job as `from` would send it, without signing anything
+ * A job's gas includes its provenance transaction. Also returns the current fee
+ * estimate, for pricing the whole batch.
+ */
+export async function estimatePublishGas(jobs: PublishJob[], from: Address): Promise<{
+  estimates: GasEstimate[]
+  maxFeePerGas: bigint
+}> {
+  const publicClient = getPublicClient()
+  const { address: contract, abi } = await getProtocolContract(publicClient)
+  const { maxFeePerGas } = await publicClient.estimateFeesPerGas()
+
+  const estimates: GasEstimate[] = []
+  for (const job of jobs) {
+    try {
+      let gas = await publicClient.estimateGas({ account: from, to: contract, data: encodePublishCall(abi, job) })
+      if (job.provenanceStream) {
+        gas += await publicClient.estimateGas({ account: from, to: contract, data: encodeProvenanceCall(abi, job.provenanceStream) })
+      }
+      estimates.push({ key: job.key, gas })
+    } catch (error) {
+      estimates.push({ key: job.key, error: errorMessage(error) })
+    }
+  }
+
+  return { estimates, maxFeePerGas }
+}
+
+/**
+ * Publish jobs concurrently; resolves with one result per job, in job order
+ * Never throws for individual job failures - check each result's status.
+ */
+export async function publishConcurrently(jobs: PublishJob[], options: PublisherOptions = {}): Promise<PublishResult[]> {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  if (jobs.length === 0) return []
+
+  const publicClient = getPublicClient()
+  const walletClient = getWalletClient()
+  const account = walletClient.account
+  const { address: contract, abi } = await getProtocolContract(publicClient)
+
+  // Start from the pending count so transactions from an earlier run are not replaced
+  let nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' })
+  const transactions = jobs.length + jobs.filter(job => job.provenanceStream).length
+  console.log(`🔢 Publishing ${transactions} transactions from nonce ${nextNonce} (${config.maxInFlight} in flight)`)
+
+  const getFees = async (): Promise<Fees> => {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas()
+    return { maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  /**
+   * Poll until any of the hashes (original or replacements) has a receipt
+   */
+  const waitForAnyReceipt = async (hashes: Hex[], timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs
+    while (Date.now() < deadline) {
+      for (const hash of hashes) {
+        const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null)
+        if (receipt) return receipt
+      }
+      await sleep(config.pollIntervalMs)
+    }
+    return null
+  }
+
+  /**
+   * Occupy a nonce that was assigned but never broadcast, so later nonces are not stuck behind a gap
+   */
+  const fillNonceGap = async (nonce: number) => {
+    const pending = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' })
+    if (pending > nonce) return // Consumed after all (e.g. the send errored after broadcast)
+
+    try {
+      const fees = await getFees()
+      await walletClient.sendTransaction({ to: account.address, value: BigInt(0), nonce, ...fees })
+      console.warn(`   🕳️  Filled nonce gap ${nonce} with an empty transaction`)
+    } catch (error) {
+      console.error(`   ❌ Failed to fill nonce gap ${nonce}:`, errorMessage(error))
+    }
+  }
+
+  /**
+   * Send one call at the next nonce and wait for it, bumping fees while it is stuck
+   */
+  const sendCall = async (key: string, data: Hex): Promise<PublishResult> => {
+    // Estimate before taking a nonce, so a reverting call never leaves a gap
+    let gas: bigint
+    let fees: Fees
+    try {
+      gas = await publicClient.estimateGas({ account, to: contract, data })
+      fees = await getFees()
+    } catch (error) {
+      return { key, status: 'failed', attempts: 0, error: errorMessage(error) }
+    }
+
+    const nonce = nextNonce++
+    const hashes: Hex[] = []
+
+    try {
+      hashes.push(await walletClient.sendTransaction({ to: contract, data, gas, nonce, ...fees }))
+    } catch (error) {
+      await fillNonceGap(nonce)
+      return { key, status: 'failed', nonce, attempts: 0, error: errorMessage(error) }
+    }
+    console.log(`   📝 ${key}: sent nonce ${nonce} (${hashes[0]})`)
+
+    const deadline = Date.now() + config.receiptTimeoutMs
+    let bumps = 0
+
+    while (Date.now() < deadline) {
+      const waitMs = bumps < config.maxGasBumps
+        ? Math.min(config.stuckAfterMs, deadline - Date.now())
+        : deadline - Date.now()
+      const receipt = await waitForAnyReceipt(hashes, waitMs)
+
+      if (receipt) {
+        const status = receipt.status === 'success' ? 'confirmed' : 'reverted'
+        console.log(`   ${status === 'confirmed' ? '✅' : '❌'} ${key}: ${status} in block ${receipt.blockNumber} (nonce ${nonce})`)
+        return {
+          key,
+          status,
+          txHash: receipt.transactionHash,
+          txHashes: hashes,
+          nonce,
+          attempts: hashes.length,
+          blockNumber: receipt.blockNumber,
+          ...(status === 'reverted' && { error: 'Transaction reverted' })
+        }
+      }
+
+      if (bumps >= config.maxGasBumps || Date.now() >= deadline) break
+
+      // Stuck - replace at the same nonce with higher fees
+      try {
+        fees = bumpFees(fees, await getFees(), config.gasBumpPercent)
+        hashes.push(await walletClient.sendTransaction({ to: contract, data, gas, nonce, ...fees }))
+        bumps++
+        console.warn(`   ⛽ ${key}: nonce ${nonce} stuck, bumped fees (attempt ${hashes.length}, ${hashes[hashes.length - 1]})`)
+      } catch (error) {
+        // Usually "nonce too low" - an earlier attempt was just mined, so keep polling
+        bumps++
+        console.warn(`   ⚠️  ${key}: gas bump failed: ${errorMessage(error)}`)
+      }
+    }
+
+    console.error(`   ⏰ ${key}: no receipt after ${config.receiptTimeoutMs}ms (nonce ${nonce})`)
+    return {
+      key,
+      status: 'timeout',
+      txHash: hashes[hashes.length - 1],
+      txHashes: hashes,
+      nonce,
+      attempts: hashes.length,
+      error: `No receipt after ${config.receiptTimeoutMs}ms`
+    }
+  }
+
+  const publishOne = async (job: PublishJob): Promise<PublishResult> => {
+    const result = await sendCall(job.key, encodePublishCall(abi, job))
+    if (result.status !== 'confirmed' || !job.provenanceStream) return result
+
+    // Only once the earthquake is mined, so a provenance record never points at a missing one
+    const provenance = await sendCall(`${job.key} provenance`, encodeProvenanceCall(abi, job.provenanceStream))
+    if (provenance.status !== 'confirmed') {
+      return { ...result, provenanceError: `${provenance.status}${provenance.error ? `: ${provenance.error}` : ''}` }
+    }
+    return { ...result, provenanceTxHash: provenance.txHash }
+  }
+
+  // Worker pool: each worker takes the next job and holds at most one nonce in flight
+  const results: PublishResult[] = new Array(jobs.length)
+  let nextJob = 0
+
+  const worker = async () => {
+    while (nextJob < jobs.length) {
+      const index = nextJob++
+      try {
+        results[index] = await publishOne(jobs[index])
+      } catch (error) {
+        results[index] = { key: jobs[index].key, status: 'failed', attempts: 0, error: errorMessage(error) }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(config.maxInFlight, jobs.length) }, worker))
+  return results
+}
+
+/**
+ * The transactions a timed-out publish may still be mined from (undefined for other results)
+ */
+export function toPendingPublish(result: PublishResult): PendingPublish | undefined {
+  return result.status === 'timeout' && result.nonce !== undefined && result.txHashes
+    ? { nonce: result.nonce, txHashes: result.txHashes }
+    : undefined
+}
+
+/**
+ * What became of a timed-out publish, so a retry never writes the record and its events twice
+ * The nonce is checked before the receipts: once `from` has mined past it, a missing receipt
+ * means another transaction took the nonce.
+ */
+export async function checkPendingPublish(pending: PendingPublish, from: Address): Promise<PendingPublishOutcome> {
+  const publicClient = getPublicClient()
+  const minedCount = await publicClient.getTransactionCount({ address: from, blockTag: 'latest' })
+  if (minedCount <= pending.nonce) return { status: 'pending' }
+
+  for (const hash of pending.txHashes) {
+    const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null)
+    if (!receipt) continue
+    return receipt.status === 'success'
+      ? { status: 'confirmed', txHash: receipt.transactionHash, blockNumber: receipt.blockNumber }
+      : { status: 'reverted' }
+  }
+  return { status: 'dropped' }
+}
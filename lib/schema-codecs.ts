@@ -0,0 +1,339 @@
+import { SchemaEncoder } from '@somnia-chain/streams'
+import { decodeAbiParameters, type AbiParameter, type Hex } from 'viem'
+import {
+  EARTHQUAKE_SCHEMA,
+  EARTHQUAKE_SCHEMA_ID,
+  EARTHQUAKE_SCHEMA_V2,
+  EARTHQUAKE_SCHEMA_V2_ID,
+  EARTHQUAKE_SCHEMA_V3,
+  EARTHQUAKE_SCHEMA_V3_ID,
+  PROVENANCE_SCHEMA,
+  PROVENANCE_SCHEMA_ID,
+  RETRACTION_SCHEMA,
+  RETRACTION_SCHEMA_ID
+} from './constants'
+import type { Earthquake, EarthquakeProvenance, EarthquakeRetraction, PagerAlert, RetractionReason, ReviewStatus, SourceRecordFormat } from '@/types/earthquake'
+
+/**
+ * Versioned schema registry
+ *
+ * Every on-chain data schema is registered here once: its registration name,
+ * version, schema string, configured schema ID, and how its fields map to and
+ * from our types. Codecs decode raw hex as well as the SDK's SchemaDecodedItem[]
+ * (what `getAtIndex` and friends return for public schemas), so consumers never
+ * deal with field positions or fixed-point scaling.
+ *
+ * Numeric fields are fixed-point: rounded (half away from zero) to the field's
+ * decimal places, so any value at that precision round-trips exactly. Values
+ * that are not finite, or do not fit the field, throw a SchemaEncodingError
+ * rather than being written on-chain wrapped or truncated.
+ */
+
+// One item of the SDK's decoded shape - `value` is itself a { name, type, value } item
+export interface DecodedSchemaItem {
+  name?: string
+  value: unknown
+}
+
+// A record as read from chain: hex bytes or SDK-decoded items
+export type EncodedRecord = Hex | readonly DecodedSchemaItem[]
+
+export interface SchemaCodec<T> {
+  name: string                   // Registration ID, e.g. 'earthquake_event_v2'
+  version: number
+  schema: string
+  schemaId: Hex | undefined      // Undefined until registered and configured
+  schemaIdEnv: string            // Env var holding the schema ID
+  encode(value: T): Hex
+  decode(record: EncodedRecord): T
+}
+
+interface CodecDefinition<T> extends Omit<SchemaCodec<T>, 'encode' | 'decode'> {
+  decimals?: Record<string, number>             // Fixed-point fields: decimal places kept on-chain
+  limits?: Record<string, [number, number]>     // Valid range of a field, where narrower than its type
+  toFields(value: T): unknown[]                 // Field values in schema order (real, unscaled numbers)
+  fromFields(values: readonly unknown[]): T     // Decoded field values in schema order (already unscaled)
+}
+
+export type SchemaEncodingErrorCode =
+  | 'not-finite'                 // NaN, ±Infinity or not a number at all
+  | 'out-of-range'               // Outside the field's limits or its integer type
+  | 'invalid-type'               // Wrong type for a string/bool field
+
+/**
+ * A value that cannot be written to its schema field
+ */
+export class SchemaEncodingError extends Error {
+  constructor(
+    public readonly schema: string,
+    public readonly field: string,
+    public readonly value: unknown,
+    public readonly code: SchemaEncodingErrorCode,
+    message: string
+  ) {
+    super(`${schema}.${field}: ${message}`)
+    this.name = 'SchemaEncodingError'
+  }
+}
+
+const PAGER_ALERTS: readonly string[] = ['green', 'yellow', 'orange', 'red'] satisfies PagerAlert[]
+const REVIEW_STATUSES: readonly string[] = ['automatic', 'reviewed'] satisfies ReviewStatus[]
+
+export const isPagerAlert = (value: unknown): value is PagerAlert => PAGER_ALERTS.includes(String(value))
+export const isReviewStatus = (value: unknown): value is ReviewStatus => REVIEW_STATUSES.includes(String(value))
+
+function parseSchema(schema: string): AbiParameter[] {
+  return schema.split(',').map(field => {
+    const [type, name] = field.trim().split(/\s+/)
+    return { type, name }
+  })
+}
+
+/**
+ * Inclusive range of a Solidity integer type (uint16, int32, ...)
+ */
+function integerBounds(type: string): [bigint, bigint] {
+  const [, unsigned, bits] = /^(u?)int(\d*)$/.exec(type)!
+  const size = BigInt(bits || 256)
+  return unsigned
+    ? [BigInt(0), BigInt(2) ** size - BigInt(1)]
+    : [-(BigInt(2) ** (size - BigInt(1))), BigInt(2) ** (size - BigInt(1)) - BigInt(1)]
+}
+
+const isIntegerType = (type: string) => /^u?int\d*$/.test(type)
+
+function unwrapDecodedValue(item: DecodedSchemaItem | undefined): unknown {
+  const value = item?.value
+  return value !== null && typeof value === 'object' && 'value' in value
+    ? (value as { value: unknown }).value
+    : value
+}
+
+function defineCodec<T>({ toFields, fromFields, decimals = {}, limits = {}, ...info }: CodecDefinition<T>): SchemaCodec<T> {
+  const parameters = parseSchema(info.schema)
+  const encoder = new SchemaEncoder(info.schema)
+
+  const fail = (field: string, value: unknown, code: SchemaEncodingErrorCode, message: string) =>
+    new SchemaEncodingError(info.name, field, value, code, message)
+
+  const toFixedPoint = ({ name, type }: AbiParameter, value: unknown): string => {
+    const field = name!
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw fail(field, value, 'not-finite', `expected a finite number, got ${String(value)}`)
+    }
+
+    const limit = limits[field]
+    if (limit && (value < limit[0] || value > limit[1])) {
+      throw fail(field, value, 'out-of-range', `${value} is outside ${limit[0]}..${limit[1]}`)
+    }
+
+    const places = decimals[field] ?? 0
+    const scaled = Math.sign(value) * Math.round(Math.abs(value) * 10 ** places)
+    const [min, max] = integerBounds(type)
+    if (!Number.isSafeInteger(scaled) || BigInt(scaled) < min || BigInt(scaled) > max) {
+      const scale = 10 ** places
+      throw fail(field, value, 'out-of-range', `${value} does not fit ${type} at ${places} decimal places (${Number(min) / scale}..${Number(max) / scale})`)
+    }
+    return BigInt(scaled).toString()
+  }
+
+  const fromFixedPoint = ({ name, type }: AbiParameter, value: unknown): unknown => {
+    if (!isIntegerType(type)) return value
+    return Number(value ?? 0) / 10 ** (decimals[name!] ?? 0)
+  }
+
+  return {
+    ...info,
+    encode(value) {
+      const values = toFields(value)
+      return encoder.encodeData(parameters.map((parameter, i) => {
+        const field = parameter.name!
+        const raw = values[i]
+
+        if (isIntegerType(parameter.type)) {
+          return { name: field, type: parameter.type, value: toFixedPoint(parameter, raw) }
+        }
+        if (parameter.type === 'bool' ? typeof raw !== 'boolean' : typeof raw !== 'string') {
+          throw fail(field, raw, 'invalid-type', `expected ${parameter.type === 'bool' ? 'a boolean' : 'a string'}, got ${typeof raw}`)
+        }
+        return { name: field, type: parameter.type, value: raw as string | boolean }
+      }))
+    },
+    decode(record) {
+      if (typeof record === 'string') {
+        const values = decodeAbiParameters(parameters, record)
+        return fromFields(parameters.map((parameter, i) => fromFixedPoint(parameter, values[i])))
+      }
+
+      // Match SDK items by name, falling back to position for unnamed items
+      const byName = new Map(record.map(item => [item.name, unwrapDecodedValue(item)]))
+      return fromFields(parameters.map((parameter, i) => fromFixedPoint(
+        parameter,
+        byName.has(parameter.name) ? byName.get(parameter.name) : unwrapDecodedValue(record[i])
+      )))
+    }
+  }
+}
+
+// On-chain precision: magnitude 0.1, depth 1 m, coordinates 1e-6° (~11 cm), intensities 0.1
+const EARTHQUAKE_DECIMALS = { magnitude: 1, depth: 3, latitude: 6, longitude: 6, cdi: 1, mmi: 1 }
+const EARTHQUAKE_LIMITS: Record<string, [number, number]> = { latitude: [-90, 90], longitude: [-180, 180] }
+
+function toEarthquakeV1Fields(quake: Earthquake): unknown[] {
+  return [
+    quake.earthquakeId,
+    quake.location,
+    quake.magnitude,
+    quake.depth,
+    quake.latitude,
+    quake.longitude,
+    quake.timestamp,
+    quake.url
+  ]
+}
+
+function fromEarthquakeV1Fields(values: readonly unknown[]): Earthquake {
+  const [earthquakeId, location, magnitude, depth, latitude, longitude, timestamp, url] = values
+  return {
+    earthquakeId: String(earthquakeId || ''),
+    location: String(location || ''),
+    magnitude: Number(magnitude || 0),
+    depth: Number(depth || 0),
+    latitude: Number(latitude || 0),
+    longitude: Number(longitude || 0),
+    timestamp: Number(timestamp || 0),
+    url: String(url || '')
+  }
+}
+
+// v2+ append the extra USGS fields; unreported ones are written as empty string / 0
+function toEarthquakeV2Fields(quake: Earthquake): unknown[] {
+  return [
+    ...toEarthquakeV1Fields(quake),
+    quake.magType ?? '',
+    quake.status ?? '',
+    quake.tsunami ?? false,
+    quake.alert ?? '',
+    quake.felt ?? 0,
+    quake.cdi ?? 0,
+    quake.mmi ?? 0,
+    quake.sig ?? 0,
+    quake.updated ?? 0
+  ]
+}
+
+function fromEarthquakeV2Fields(values: readonly unknown[]): Earthquake {
+  const [magType, status, tsunami, alert, felt, cdi, mmi, sig, updated] = values.slice(8)
+  return {
+    ...fromEarthquakeV1Fields(values),
+    ...(magType ? { magType: String(magType) } : {}),
+    ...(isReviewStatus(status) && { status }),
+    tsunami: Boolean(tsunami),
+    ...(isPagerAlert(alert) && { alert }),
+    ...(Number(felt) > 0 && { felt: Number(felt) }),
+    ...(Number(cdi) > 0 && { cdi: Number(cdi) }),
+    ...(Number(mmi) > 0 && { mmi: Number(mmi) }),
+    sig: Number(sig || 0),
+    ...(Number(updated) > 0 && { updated: Number(updated) })
+  }
+}
+
+/**
+ * Earthquake schemas, oldest first - add a version by appending its codec
+ */
+export const EARTHQUAKE_CODECS: readonly SchemaCodec<Earthquake>[] = [
+  defineCodec<Earthquake>({
+    name: 'earthquake_event_v1',
+    version: 1,
+    schema: EARTHQUAKE_SCHEMA,
+    schemaId: EARTHQUAKE_SCHEMA_ID,
+    schemaIdEnv: 'NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID',
+    decimals: EARTHQUAKE_DECIMALS,
+    limits: EARTHQUAKE_LIMITS,
+    toFields: toEarthquakeV1Fields,
+    fromFields: fromEarthquakeV1Fields
+  }),
+  defineCodec<Earthquake>({
+    name: 'earthquake_event_v2',
+    version: 2,
+    schema: EARTHQUAKE_SCHEMA_V2,
+    schemaId: EARTHQUAKE_SCHEMA_V2_ID,
+    schemaIdEnv: 'NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V2_ID',
+    decimals: EARTHQUAKE_DECIMALS,
+    limits: EARTHQUAKE_LIMITS,
+    toFields: toEarthquakeV2Fields,
+    fromFields: fromEarthquakeV2Fields
+  }),
+  // Same fields as v2, with a signed depth
+  defineCodec<Earthquake>({
+    name: 'earthquake_event_v3',
+    version: 3,
+    schema: EARTHQUAKE_SCHEMA_V3,
+    schemaId: EARTHQUAKE_SCHEMA_V3_ID,
+    schemaIdEnv: 'NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V3_ID',
+    decimals: EARTHQUAKE_DECIMALS,
+    limits: EARTHQUAKE_LIMITS,
+    toFields: toEarthquakeV2Fields,
+    fromFields: fromEarthquakeV2Fields
+  })
+]
+
+// Tombstones for retracted earthquakes (separate schema, same data IDs)
+export const RETRACTION_CODEC = defineCodec<EarthquakeRetraction>({
+  name: 'earthquake_retraction_v1',
+  version: 1,
+  schema: RETRACTION_SCHEMA,
+  schemaId: RETRACTION_SCHEMA_ID,
+  schemaIdEnv: 'NEXT_PUBLIC_RETRACTION_SCHEMA_ID',
+  toFields: retraction => [retraction.earthquakeId, retraction.retractedAt, retraction.reason],
+  fromFields: ([earthquakeId, retractedAt, reason]) => ({
+    earthquakeId: String(earthquakeId || ''),
+    retractedAt: Number(retractedAt || 0),
+    reason: String(reason) as RetractionReason
+  })
+})
+
+// Source record hashes (separate schema, same data IDs - see lib/provenance.ts)
+export const PROVENANCE_CODEC = defineCodec<EarthquakeProvenance>({
+  name: 'earthquake_provenance_v1',
+  version: 1,
+  schema: PROVENANCE_SCHEMA,
+  schemaId: PROVENANCE_SCHEMA_ID,
+  schemaIdEnv: 'NEXT_PUBLIC_PROVENANCE_SCHEMA_ID',
+  toFields: provenance => [provenance.earthquakeId, provenance.sourceHash, provenance.source, provenance.format, provenance.fetchedAt],
+  fromFields: ([earthquakeId, sourceHash, source, format, fetchedAt]) => ({
+    earthquakeId: String(earthquakeId || ''),
+    sourceHash: String(sourceHash) as Hex,
+    source: String(source || ''),
+    format: String(format) as SourceRecordFormat,
+    fetchedAt: Number(fetchedAt || 0)
+  })
+})
+
+// Every data schema, for registration
+export const DATA_SCHEMA_CODECS: readonly SchemaCodec<unknown>[] = [...EARTHQUAKE_CODECS, RETRACTION_CODEC, PROVENANCE_CODEC] as SchemaCodec<unknown>[]
+
+// Earthquake schemas with a configured schema ID, oldest first - the ones to read history from
+export const ACTIVE_EARTHQUAKE_CODECS = EARTHQUAKE_CODECS.filter(codec => codec.schemaId)
+
+// New earthquake records are written with the newest configured version
+export const PUBLISH_EARTHQUAKE_CODEC = ACTIVE_EARTHQUAKE_CODECS[ACTIVE_EARTHQUAKE_CODECS.length - 1] ?? EARTHQUAKE_CODECS[0]
+
+export function getEarthquakeCodec(schemaId: Hex): SchemaCodec<Earthquake> | undefined {
+  return EARTHQUAKE_CODECS.find(codec => codec.schemaId?.toLowerCase() === schemaId.toLowerCase())
+}
+
+export function getEarthquakeCodecByVersion(version: number): SchemaCodec<Earthquake> {
+  const codec = EARTHQUAKE_CODECS.find(codec => codec.version === version)
+  if (!codec) throw new Error(`Unknown earthquake schema version ${version}`)
+  return codec
+}
+
+/**
+ * Decode an earthquake record read from the given schema
+ */
+export function decodeEarthquakeRecord(schemaId: Hex, record: EncodedRecord): Earthquake {
+  const codec = getEarthquakeCodec(schemaId)
+  if (!codec) throw new Error(`No earthquake codec registered for schema ${schemaId}`)
+  return codec.decode(record)
+}
@@ -0,0 +1,162 @@
+import type { Earthquake } from '@/types/earthquake'
+import { checkHypocentre, createSourceRecord, parseNumberField, toSourceEarthquakeId, USER_AGENT, type EarthquakeSource, type QuarantinedFeature, type SourceFetch, type SourceQuery } from './source'
+
+interface FDSNSourceOptions {
+  name: string
+  url: string                                  // fdsnws-event `query` endpoint
+  eventUrl?: (eventId: string) => string       // Human-readable event page
+  namespaceIds?: boolean                       // Prefix IDs with the source name (default true)
+  userAgent?: string
+}
+
+/**
+ * Known FDSN event services
+ */
+export const FDSN_ENDPOINTS: Record<string, Omit<FDSNSourceOptions, 'name' | 'userAgent'>> = {
+  emsc: {
+    url: 'https://www.seismicportal.eu/fdsnws/event/1/query',
+    eventUrl: id => `https://www.seismicportal.eu/eventdetails.html?unid=${id}`
+  },
+  geonet: {
+    url: 'https://service.geonet.org.nz/fdsnws/event/1/query',
+    eventUrl: id => `https://www.geonet.org.nz/earthquake/${id}`
+  },
+  'usgs-fdsn': {
+    url: 'https://earthquake.usgs.gov/fdsnws/event/1/query',
+    eventUrl: id => `https://earthquake.usgs.gov/earthquakes/eventpage/${id}`,
+    namespaceIds: false // Same IDs as the USGS summary feed, so dedupe keeps working
+  }
+}
+
+interface FDSNEvent {
+  eventId: string
+  time: number
+  latitude: number
+  longitude: number
+  depth: number
+  magnitude: number
+  location: string
+  line: string                   // The event's line as received, for provenance
+}
+
+/**
+ * Parse and validate one line of the FDSN `format=text` response
+ * Columns: EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|MagAuthor|EventLocationName
+ * Rejected like USGS features: no ID, origin time or magnitude, or a hypocentre that is missing or out of range.
+ */
+export function parseFDSNLine(line: string): { event: FDSNEvent } | { id?: string; reason: string } {
+  const columns = line.split('|').map(column => column.trim())
+  const eventId = columns[0]
+  if (!eventId) return { reason: 'missing event id' }
+
+  const rawTime = columns[1] ?? ''
+  // FDSN times are UTC but often omit the zone designator
+  const time = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(rawTime) ? rawTime : `${rawTime}Z`)
+  if (!Number.isFinite(time)) return { id: eventId, reason: `origin time ${JSON.stringify(rawTime)} is not a date` }
+
+  const latitude = parseNumberField(columns[2])
+  const longitude = parseNumberField(columns[3])
+  const depth = parseNumberField(columns[4])
+  const hypocentreProblem = checkHypocentre(latitude, longitude, depth)
+  if (hypocentreProblem) return { id: eventId, reason: hypocentreProblem }
+
+  const magnitude = parseNumberField(columns[10])
+  if (typeof magnitude !== 'number') return { id: eventId, reason: `magnitude ${JSON.stringify(magnitude ?? null)} is not a number` }
+
+  return {
+    event: {
+      eventId,
+      time,
+      latitude: latitude as number,
+      longitude: longitude as number,
+      depth: depth as number,
+      magnitude,
+      location: columns[12] ?? '',
+      line
+    }
+  }
+}
+
+/**
+ * Parse the FDSN `format=text` response; lines that fail validation are quarantined under `source`
+ */
+export function parseFDSNText(text: string, source: string): { events: FDSNEvent[]; quarantined: QuarantinedFeature[] } {
+  const events: FDSNEvent[] = []
+  const quarantined: QuarantinedFeature[] = []
+
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .forEach(line => {
+      const result = parseFDSNLine(line)
+      if ('event' in result) events.push(result.event)
+      else quarantined.push({ source, ...result })
+    })
+
+  return { events, quarantined }
+}
+
+/**
+ * Generic FDSN event web service adapter (EMSC, GeoNet, USGS, ...)
+ * Uses the plain-text format, which every fdsnws-event implementation supports.
+ */
+export function createFDSNSource({ name, url, eventUrl, namespaceIds = true, userAgent = USER_AGENT }: FDSNSourceOptions): EarthquakeSource {
+  const toEarthquakeId = (eventId: string) => namespaceIds ? toSourceEarthquakeId(name, eventId) : eventId
+  const toEarthquake = (event: FDSNEvent): Earthquake => ({
+    earthquakeId: toEarthquakeId(event.eventId),
+    location: event.location,
+    magnitude: event.magnitude,
+    depth: event.depth,
+    latitude: event.latitude,
+    longitude: event.longitude,
+    timestamp: event.time,
+    url: eventUrl ? eventUrl(event.eventId) : `${url}?eventid=${encodeURIComponent(event.eventId)}`
+  })
+
+  return {
+    name,
+    completeWindow: true,
+    async fetchEarthquakes(query: SourceQuery): Promise<SourceFetch> {
+      const params = new URLSearchParams({
+        format: 'text',
+        starttime: new Date(query.startTime).toISOString()
+      })
+      if (query.endTime !== undefined) params.set('endtime', new Date(query.endTime).toISOString())
+      if (query.minMagnitude !== undefined) params.set('minmagnitude', String(query.minMagnitude))
+
+      const response = await fetch(`${url}?${params}`, {
+        headers: {
+          'User-Agent': userAgent
+        }
+      })
+
+      // 204 No Content is the FDSN way of saying "no events matched"
+      if (response.status === 204) return { earthquakes: [] }
+
+      if (!response.ok) {
+        throw new Error(`${name} FDSN error: ${response.status} ${response.statusText}`)
+      }
+
+      const fetchedAt = Date.now()
+      const { events, quarantined } = parseFDSNText(await response.text(), name)
+      console.log(`📊 [${name}] FDSN returned ${events.length + quarantined.length} earthquakes`)
+      quarantined.forEach(entry => console.warn(`   🚧 Quarantined ${entry.id ?? '(no id)'}: ${entry.reason}`))
+
+      const earthquakes = events.map(event => ({
+        ...toEarthquake(event),
+        sourceRecord: createSourceRecord(name, 'fdsn-text', event.line, fetchedAt)
+      }))
+
+      // Under their earthquake IDs, so a quarantined event is not taken for a deleted one
+      return {
+        earthquakes,
+        quarantined: quarantined.map(entry => entry.id ? { ...entry, id: toEarthquakeId(entry.id) } : entry)
+      }
+    },
+    parseRecord(record) {
+      const result = parseFDSNLine(record.body)
+      return 'event' in result ? toEarthquake(result.event) : undefined
+    }
+  }
+}
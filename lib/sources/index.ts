@@ -0,0 +1,86 @@
+import { validateSourceName, type EarthquakeSource, type SourceQuery, type SourceResult } from './source'
+import { createUSGSGeoJSONSource, USGS_SUMMARY_FEED } from './usgs'
+import { createFDSNSource, FDSN_ENDPOINTS } from './fdsn'
+import { createQuakeMLSource } from './quakeml'
+
+/**
+ * Earthquake source adapters
+ *
+ * Every provider (USGS GeoJSON feed, FDSN event web services, QuakeML documents)
+ * is wrapped in an EarthquakeSource that returns plain `Earthquake` records,
+ * so the oracle never deals with provider-specific shapes.
+ */
+
+interface SourceListOptions {
+  spec?: string                  // Defaults to EARTHQUAKE_SOURCES, then 'usgs'
+  usgsFeedUrl?: string           // Summary feed used for the `usgs` entry
+  userAgent?: string
+}
+
+/**
+ * Build the source list from EARTHQUAKE_SOURCES (comma separated, in priority order)
+ *
+ * Entries:
+ * - `usgs`                    USGS GeoJSON summary feed (default, all_day unless usgsFeedUrl is given)
+ * - `emsc`, `geonet`, `usgs-fdsn`, ...  known FDSN event services (see FDSN_ENDPOINTS)
+ * - `fdsn:<name>=<url>`       any other FDSN event service query URL
+ * - `quakeml:<name>=<url>`    any QuakeML document URL
+ */
+export function createSourcesFromEnv({
+  spec = process.env.EARTHQUAKE_SOURCES || 'usgs',
+  usgsFeedUrl = USGS_SUMMARY_FEED,
+  userAgent
+}: SourceListOptions = {}): EarthquakeSource[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      if (entry === 'usgs') {
+        return createUSGSGeoJSONSource({ url: usgsFeedUrl, userAgent })
+      }
+
+      if (entry in FDSN_ENDPOINTS) {
+        return createFDSNSource({ name: entry, ...FDSN_ENDPOINTS[entry], userAgent })
+      }
+
+      const match = entry.match(/^(fdsn|quakeml):([a-z0-9-]+)=(https?:\/\/.+)$/i)
+      if (match) {
+        const [, kind, name, url] = match
+        // The name prefixes every earthquake ID of the source
+        const problem = validateSourceName(name)
+        if (problem) throw new Error(`Invalid earthquake source "${entry}" in EARTHQUAKE_SOURCES: ${problem}`)
+        return kind.toLowerCase() === 'fdsn'
+          ? createFDSNSource({ name, url, userAgent })
+          : createQuakeMLSource({ name, url, userAgent })
+      }
+
+      throw new Error(`Unknown earthquake source "${entry}" in EARTHQUAKE_SOURCES`)
+    })
+}
+
+/**
+ * Fetch from every source in parallel
+ * A failing source is reported but does not fail the others.
+ */
+export async function fetchFromSources(sources: EarthquakeSource[], query: SourceQuery): Promise<SourceResult[]> {
+  const settled = await Promise.allSettled(sources.map(source => source.fetchEarthquakes(query)))
+
+  return settled.map((outcome, i) => outcome.status === 'fulfilled'
+    ? { source: sources[i].name, earthquakes: outcome.value.earthquakes, quarantined: outcome.value.quarantined ?? [] }
+    : {
+        source: sources[i].name,
+        earthquakes: [],
+        quarantined: [],
+        error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+      })
+}
+
+export { canonicalJson, createSourceRecord, MAX_SOURCE_NAME_BYTES, toSourceEarthquakeId, USER_AGENT, validateSourceName } from './source'
+export type { EarthquakeSource, QuarantinedFeature, SourceFetch, SourceQuery, SourceResult } from './source'
+export { createUSGSGeoJSONSource, fetchUSGSEventPage, fetchUSGSEventRecord, getUSGSSummaryFeed, USGS_FDSN_QUERY, USGS_SUMMARY_FEED, USGSRequestError } from './usgs'
+export { parseUSGSFeature, parseUSGSResponse } from './usgs-validation'
+export { createFDSNSource, FDSN_ENDPOINTS } from './fdsn'
+export { createQuakeMLSource, parseQuakeML } from './quakeml'
+export { mergeEarthquakes } from './merge'
+export type { MergeOptions } from './merge'
@@ -0,0 +1,63 @@
+import { distanceKm } from '@/lib/geo'
+import type { Earthquake } from '@/types/earthquake'
+import type { SourceResult } from './source'
+
+export interface MergeOptions {
+  maxTimeDifferenceMs: number    // Origin times further apart than this are different events
+  maxDistanceKm: number          // Epicentres further apart than this are different events
+}
+
+// Agencies' automatic solutions for the same event typically agree within
+// a few seconds and a few tens of kilometres
+const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+  maxTimeDifferenceMs: 16_000,
+  maxDistanceKm: 100
+}
+
+/**
+ * Merge the same physical event reported by several sources
+ *
+ * Results must be in priority order: the first source to report an event
+ * provides the published record, and every matching source's ID is attached
+ * as `sourceIds`. Each cluster takes at most one event per source.
+ */
+export function mergeEarthquakes(results: SourceResult[], options: Partial<MergeOptions> = {}): Earthquake[] {
+  const { maxTimeDifferenceMs, maxDistanceKm } = { ...DEFAULT_MERGE_OPTIONS, ...options }
+  const clusters: Array<{ quake: Earthquake; sources: Set<string> }> = []
+
+  for (const result of results) {
+    for (const quake of result.earthquakes) {
+      let best: (typeof clusters)[number] | undefined
+      let bestScore = Infinity
+
+      for (const cluster of clusters) {
+        if (cluster.sources.has(result.source)) continue
+
+        const timeDifference = Math.abs(cluster.quake.timestamp - quake.timestamp)
+        if (timeDifference > maxTimeDifferenceMs) continue
+
+        const distance = distanceKm(cluster.quake.latitude, cluster.quake.longitude, quake.latitude, quake.longitude)
+        if (distance > maxDistanceKm) continue
+
+        // Prefer the closest match in normalised time/space
+        const score = timeDifference / maxTimeDifferenceMs + distance / maxDistanceKm
+        if (score < bestScore) {
+          best = cluster
+          bestScore = score
+        }
+      }
+
+      if (best) {
+        best.sources.add(result.source)
+        best.quake.sourceIds = [...(best.quake.sourceIds ?? []), quake.earthquakeId]
+      } else {
+        clusters.push({
+          quake: { ...quake, sourceIds: [quake.earthquakeId] },
+          sources: new Set([result.source])
+        })
+      }
+    }
+  }
+
+  return clusters.map(cluster => cluster.quake)
+}
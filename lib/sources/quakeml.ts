@@ -0,0 +1,163 @@
+import { XMLParser } from 'fast-xml-parser'
+import type { Earthquake } from '@/types/earthquake'
+import { canonicalJson, checkHypocentre, createSourceRecord, parseNumberField, toSourceEarthquakeId, USER_AGENT, type EarthquakeSource, type QuarantinedFeature, type SourceFetch, type SourceQuery } from './source'
+
+interface QuakeMLSourceOptions {
+  name: string
+  url: string                    // QuakeML document, or an FDSN query with format=xml
+  userAgent?: string
+}
+
+// Minimal view of the QuakeML 1.2 BED elements we read
+interface QuakeMLValue { value?: string }
+interface QuakeMLOrigin {
+  '@_publicID'?: string
+  time?: QuakeMLValue
+  latitude?: QuakeMLValue
+  longitude?: QuakeMLValue
+  depth?: QuakeMLValue           // Meters
+}
+interface QuakeMLMagnitude {
+  '@_publicID'?: string
+  mag?: QuakeMLValue
+}
+interface QuakeMLEvent {
+  '@_publicID'?: string
+  type?: string
+  preferredOriginID?: string
+  preferredMagnitudeID?: string
+  description?: Array<{ text?: string; type?: string }>
+  origin?: QuakeMLOrigin[]
+  magnitude?: QuakeMLMagnitude[]
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: name => ['event', 'origin', 'magnitude', 'description'].includes(name)
+})
+
+/**
+ * Pick the preferred element, falling back to the first one
+ */
+function preferred<T extends { '@_publicID'?: string }>(items: T[] | undefined, id: string | undefined): T | undefined {
+  return items?.find(item => item['@_publicID'] === id) ?? items?.[0]
+}
+
+/**
+ * Shorten a QuakeML resource identifier (e.g. `smi:org.gfz-potsdam.de/geofon/gfz2025abcd`)
+ * to its event-specific tail
+ */
+function shortEventId(publicId: string): string {
+  const match = publicId.match(/[?&](?:eventid|unid)=([^&]+)/i)
+  if (match) return decodeURIComponent(match[1])
+  return publicId.split(/[/:]/).filter(Boolean).pop() ?? publicId
+}
+
+/**
+ * Validate one parsed `event` element and turn it into an Earthquake
+ * Rejected like USGS features: no publicID, origin time or magnitude, or a hypocentre that is
+ * missing or out of range (depth is in meters). Events typed "not existing" (deleted by the
+ * agency) are flagged as retracted and may lack a magnitude.
+ */
+function parseQuakeMLEvent(event: QuakeMLEvent, source: string, documentUrl: string): { earthquake: Earthquake } | { id?: string; reason: string } {
+  const publicId = event['@_publicID']
+  if (!publicId) return { reason: 'missing publicID' }
+  const id = toSourceEarthquakeId(source, shortEventId(publicId))
+
+  const origin = preferred(event.origin, event.preferredOriginID)
+  if (!origin) return { id, reason: 'missing origin' }
+
+  const time = Date.parse(origin.time?.value ?? '')
+  if (!Number.isFinite(time)) return { id, reason: `origin time ${JSON.stringify(origin.time?.value ?? null)} is not a date` }
+
+  const latitude = parseNumberField(origin.latitude?.value)
+  const longitude = parseNumberField(origin.longitude?.value)
+  const depthMeters = parseNumberField(origin.depth?.value)
+  const hypocentreProblem = checkHypocentre(latitude, longitude, depthMeters)
+  if (hypocentreProblem) return { id, reason: hypocentreProblem }
+
+  const isRetracted = event.type === 'not existing'
+  const mag = parseNumberField(preferred(event.magnitude, event.preferredMagnitudeID)?.mag?.value)
+  if (typeof mag !== 'number' && !isRetracted) return { id, reason: `magnitude ${JSON.stringify(mag ?? null)} is not a number` }
+
+  const region = event.description?.find(d => d.type === 'region name') ?? event.description?.[0]
+
+  return {
+    earthquake: {
+      earthquakeId: id,
+      location: region?.text ?? '',
+      magnitude: typeof mag === 'number' ? mag : 0,
+      depth: depthMeters as number / 1000,
+      latitude: latitude as number,
+      longitude: longitude as number,
+      timestamp: time,
+      url: publicId.startsWith('http') ? publicId : documentUrl,
+      ...(isRetracted && { retracted: true })
+    }
+  }
+}
+
+/**
+ * Parse a QuakeML document into Earthquake records
+ * Each keeps its parsed `event` element, as sorted-key JSON, as `sourceRecord`;
+ * events that fail validation are quarantined under `source`.
+ */
+export function parseQuakeML(xml: string, source: string, documentUrl: string, fetchedAt = Date.now()): Required<SourceFetch> {
+  const document = parser.parse(xml)
+  const events: QuakeMLEvent[] = document?.quakeml?.eventParameters?.event ?? []
+  const earthquakes: Earthquake[] = []
+  const quarantined: QuarantinedFeature[] = []
+
+  for (const event of events) {
+    const result = parseQuakeMLEvent(event, source, documentUrl)
+    if ('earthquake' in result) {
+      earthquakes.push({ ...result.earthquake, sourceRecord: createSourceRecord(source, 'quakeml', canonicalJson(event), fetchedAt) })
+    } else {
+      quarantined.push({ source, ...result })
+    }
+  }
+
+  return { earthquakes, quarantined }
+}
+
+/**
+ * QuakeML adapter for agencies that only publish XML catalogs
+ */
+export function createQuakeMLSource({ name, url, userAgent = USER_AGENT }: QuakeMLSourceOptions): EarthquakeSource {
+  return {
+    name,
+    completeWindow: false,
+    async fetchEarthquakes(query: SourceQuery): Promise<SourceFetch> {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': 'application/xml, text/xml'
+        }
+      })
+
+      if (response.status === 204) return { earthquakes: [] }
+
+      if (!response.ok) {
+        throw new Error(`${name} QuakeML error: ${response.status} ${response.statusText}`)
+      }
+
+      const { earthquakes, quarantined } = parseQuakeML(await response.text(), name, url)
+      console.log(`📊 [${name}] QuakeML returned ${earthquakes.length + quarantined.length} earthquakes`)
+      quarantined.forEach(entry => console.warn(`   🚧 Quarantined ${entry.id ?? '(no id)'}: ${entry.reason}`))
+
+      // Static documents cannot be queried by time, so apply the window here
+      return {
+        earthquakes: earthquakes.filter(quake => quake.timestamp >= query.startTime &&
+          (query.endTime === undefined || quake.timestamp < query.endTime)),
+        quarantined
+      }
+    },
+    parseRecord(record) {
+      const result = parseQuakeMLEvent(JSON.parse(record.body) as QuakeMLEvent, name, url)
+      return 'earthquake' in result ? result.earthquake : undefined
+    }
+  }
+}
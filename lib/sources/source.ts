@@ -0,0 +1,134 @@
+import { keccak256, stringToBytes } from 'viem'
+import type { Earthquake, SourceRecord, SourceRecordFormat } from '@/types/earthquake'
+
+export interface SourceQuery {
+  startTime: number              // Only events at or after this origin time (ms)
+  endTime?: number               // Only events before this origin time (ms)
+  minMagnitude?: number
+}
+
+/**
+ * A provider record that failed validation and was left out of the results
+ */
+export interface QuarantinedFeature {
+  source: string
+  id?: string                    // Provider event ID, when the record had a usable one
+  reason: string
+}
+
+export interface SourceFetch {
+  earthquakes: Earthquake[]
+  quarantined?: QuarantinedFeature[]
+}
+
+export interface EarthquakeSource {
+  name: string
+  /** Returns every event in the queried window, so an event missing from it was deleted */
+  completeWindow: boolean
+  fetchEarthquakes(query: SourceQuery): Promise<SourceFetch>
+  /** Parse an archived record of this source again (undefined if it no longer parses) */
+  parseRecord(record: SourceRecord): Earthquake | undefined
+  /** Fetch the source's current record of an event, where the provider can be queried by ID */
+  fetchRecord?(earthquakeId: string): Promise<SourceRecord | undefined>
+}
+
+export interface SourceResult {
+  source: string
+  earthquakes: Earthquake[]
+  quarantined: QuarantinedFeature[]
+  error?: string
+}
+
+export const USER_AGENT = 'Somnia-Earthquake-Alerts/1.0'
+
+function describeValue(value: unknown): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value ?? null)
+}
+
+/**
+ * Why a hypocentre cannot be published, or undefined when it can
+ * Shared by every adapter's validation, so all sources quarantine alike.
+ */
+export function checkHypocentre(latitude: unknown, longitude: unknown, depth: unknown): string | undefined {
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude)) return `latitude ${describeValue(latitude)} is not a number`
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude)) return `longitude ${describeValue(longitude)} is not a number`
+  if (Math.abs(latitude) > 90) return `latitude ${latitude} out of range`
+  if (Math.abs(longitude) > 180) return `longitude ${longitude} out of range`
+  if (typeof depth !== 'number' || !Number.isFinite(depth)) return `depth ${describeValue(depth)} is not a number`
+  return undefined
+}
+
+/**
+ * Number from a text field, or the text itself when it is not one (for checkHypocentre's reasons)
+ */
+export function parseNumberField(raw: string | undefined): number | string | undefined {
+  const value = raw?.trim()
+  if (!value) return undefined
+  return Number.isFinite(Number(value)) ? Number(value) : value
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal records hash equally
+ * whatever order the provider serialised them in
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+export function createSourceRecord(source: string, format: SourceRecordFormat, body: string, fetchedAt = Date.now()): SourceRecord {
+  return { source, format, body, hash: keccak256(stringToBytes(body)), fetchedAt }
+}
+
+// On-chain data IDs are 32 bytes (`toHex(id, { size: 32 })`)
+const MAX_ID_BYTES = 32
+// Hex characters of the event ID's hash kept when a namespaced ID is too long
+const ID_HASH_CHARS = 10
+// Longest source name that still leaves room for `:`, part of the event ID, `~` and the hash
+export const MAX_SOURCE_NAME_BYTES = 16
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length
+}
+
+/**
+ * Problem with a source name used in namespaced earthquake IDs, if any
+ */
+export function validateSourceName(source: string): string | undefined {
+  if (byteLength(source) > MAX_SOURCE_NAME_BYTES) {
+    return `source name "${source}" is longer than ${MAX_SOURCE_NAME_BYTES} bytes`
+  }
+  return undefined
+}
+
+/**
+ * Namespace a provider event ID so it is unique across sources and fits the
+ * 32-byte data ID used on-chain (`toHex(id, { size: 32 })`)
+ *
+ * Too long an ID keeps the most specific (trailing) part of the event ID that
+ * fits, followed by a hash of the whole event ID, so different events never
+ * share an on-chain ID.
+ */
+export function toSourceEarthquakeId(source: string, eventId: string): string {
+  const problem = validateSourceName(source)
+  if (problem) throw new Error(problem)
+
+  const id = `${source}:${eventId}`
+  if (byteLength(id) <= MAX_ID_BYTES) return id
+
+  const hash = keccak256(stringToBytes(eventId)).slice(2, 2 + ID_HASH_CHARS)
+  const budget = MAX_ID_BYTES - byteLength(`${source}:~${hash}`)
+  // Whole code points only, so a multi-byte character is never split
+  let tail = ''
+  for (const char of [...eventId].reverse()) {
+    if (byteLength(char + tail) > budget) break
+    tail = char + tail
+  }
+  return `${source}:${tail}~${hash}`
+}
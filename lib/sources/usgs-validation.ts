@@ -0,0 +1,125 @@
+import { transformUSGSToSchema } from '@/lib/earthquake-encoding'
+import type { Earthquake, USGSEarthquake } from '@/types/earthquake'
+import { canonicalJson, checkHypocentre, createSourceRecord, type QuarantinedFeature, type SourceFetch } from './source'
+
+/**
+ * Runtime validation of USGS GeoJSON
+ *
+ * The feed is not as tidy as its documentation: `mag` can be null, `place`
+ * empty, `url` missing and optional fields of the wrong type. Known quirks
+ * are normalised; features that still cannot describe a quake are returned
+ * with the reason instead of being published.
+ */
+
+const USGS_EVENT_PAGE = 'https://earthquake.usgs.gov/earthquakes/eventpage'
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function optionalNumber(value: unknown): number | null {
+  return isFiniteNumber(value) ? value : null
+}
+
+/**
+ * Stand-in for an empty `place`, e.g. "12.345°S, 67.890°W"
+ */
+function describeCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(3)}°${latitude < 0 ? 'S' : 'N'}`
+  const lon = `${Math.abs(longitude).toFixed(3)}°${longitude < 0 ? 'W' : 'E'}`
+  return `${lat}, ${lon}`
+}
+
+/**
+ * Validate and normalise one GeoJSON feature
+ *
+ * Normalised: empty `place` (coordinates instead), missing `url` (event page),
+ * missing `updated` (origin time), and optional fields of the wrong type (dropped).
+ * Rejected: no ID, origin time, magnitude or coordinates, or coordinates out of range.
+ * Deleted events keep only what a retraction needs, so they may lack a magnitude.
+ */
+export function parseUSGSFeature(feature: unknown): { earthquake: Earthquake } | { id?: string; reason: string } {
+  if (!isObject(feature)) return { reason: 'feature is not an object' }
+
+  const id = nonEmptyString(feature.id)
+  if (!id) return { reason: 'missing event id' }
+
+  const { properties, geometry } = feature
+  if (!isObject(properties)) return { id, reason: 'missing properties' }
+
+  const coordinates = isObject(geometry) && Array.isArray(geometry.coordinates) ? geometry.coordinates : []
+  if (coordinates.length < 2) return { id, reason: 'missing coordinates' }
+  const hypocentreProblem = checkHypocentre(coordinates[1], coordinates[0], coordinates[2])
+  if (hypocentreProblem) return { id, reason: hypocentreProblem }
+  const [longitude, latitude, depth] = coordinates as [number, number, number]
+
+  const time = properties.time
+  if (!isFiniteNumber(time)) return { id, reason: `origin time ${JSON.stringify(time ?? null)} is not a number` }
+
+  const status = nonEmptyString(properties.status)?.toLowerCase()
+  const mag = properties.mag
+  if (!isFiniteNumber(mag) && status !== 'deleted') {
+    return { id, reason: mag == null ? 'magnitude is null' : `magnitude ${JSON.stringify(mag)} is not a number` }
+  }
+
+  const normalised: USGSEarthquake = {
+    id,
+    properties: {
+      mag: isFiniteNumber(mag) ? mag : 0,
+      place: nonEmptyString(properties.place) ?? describeCoordinates(latitude, longitude),
+      time,
+      updated: isFiniteNumber(properties.updated) ? properties.updated : time,
+      status,
+      url: nonEmptyString(properties.url) ?? `${USGS_EVENT_PAGE}/${id}`,
+      magType: nonEmptyString(properties.magType) ?? null,
+      tsunami: properties.tsunami === 0 || properties.tsunami === 1 ? properties.tsunami : undefined,
+      alert: nonEmptyString(properties.alert)?.toLowerCase() ?? null,
+      felt: optionalNumber(properties.felt),
+      cdi: optionalNumber(properties.cdi),
+      mmi: optionalNumber(properties.mmi),
+      sig: optionalNumber(properties.sig) ?? undefined
+    },
+    geometry: {
+      coordinates: [longitude, latitude, depth]
+    }
+  }
+
+  return { earthquake: transformUSGSToSchema(normalised) }
+}
+
+/**
+ * Validate a FeatureCollection response
+ * A response that is not a FeatureCollection at all throws (the source failed);
+ * individual bad features are quarantined under `source`. Each earthquake keeps
+ * its raw feature as `sourceRecord`.
+ */
+export function parseUSGSResponse(data: unknown, source: string, fetchedAt = Date.now()): Required<SourceFetch> & { generated?: number } {
+  if (!isObject(data) || !Array.isArray(data.features)) {
+    throw new Error(`${source}: response is not a GeoJSON FeatureCollection`)
+  }
+
+  const earthquakes: Earthquake[] = []
+  const quarantined: QuarantinedFeature[] = []
+
+  for (const feature of data.features) {
+    const result = parseUSGSFeature(feature)
+    if ('earthquake' in result) {
+      earthquakes.push({ ...result.earthquake, sourceRecord: createSourceRecord(source, 'geojson', canonicalJson(feature), fetchedAt) })
+    } else {
+      quarantined.push({ source, ...result })
+    }
+  }
+
+  const generated = isObject(data.metadata) && isFiniteNumber(data.metadata.generated) ? data.metadata.generated : undefined
+  return { earthquakes, quarantined, generated }
+}
@@ -0,0 +1,141 @@
+import { canonicalJson, createSourceRecord, USER_AGENT, type EarthquakeSource, type SourceFetch, type SourceQuery } from './source'
+import { parseUSGSFeature, parseUSGSResponse } from './usgs-validation'
+import type { SourceRecord } from '@/types/earthquake'
+
+/**
+ * USGS summary feed covering the past hour, day, week or month
+ */
+export function getUSGSSummaryFeed(window: 'hour' | 'day' | 'week' | 'month'): string {
+  return `https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_${window}.geojson`
+}
+
+export const USGS_SUMMARY_FEED = getUSGSSummaryFeed('day')
+
+interface USGSGeoJSONSourceOptions {
+  name?: string
+  url: string
+  userAgent?: string
+}
+
+/**
+ * USGS GeoJSON adapter
+ * Works with the summary feeds and with FDSN queries using `format=geojson`,
+ * which return the same FeatureCollection shape.
+ */
+export function createUSGSGeoJSONSource({ name = 'usgs', url, userAgent = USER_AGENT }: USGSGeoJSONSourceOptions): EarthquakeSource {
+  return {
+    name,
+    completeWindow: true,
+    async fetchEarthquakes(query: SourceQuery) {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': userAgent
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`USGS API error: ${response.status} ${response.statusText}`)
+      }
+
+      const { earthquakes, quarantined, generated } = parseUSGSResponse(await response.json(), name)
+      console.log(`📊 [${name}] USGS returned ${earthquakes.length + quarantined.length} earthquakes`)
+      if (generated !== undefined) console.log(`   Generated at: ${new Date(generated).toISOString()}`)
+      quarantined.forEach(entry => console.warn(`   🚧 Quarantined ${entry.id ?? '(no id)'}: ${entry.reason}`))
+
+      // Summary feeds cannot be queried by time, so apply the window here
+      return {
+        earthquakes: earthquakes.filter(quake => quake.timestamp >= query.startTime &&
+          (query.endTime === undefined || quake.timestamp < query.endTime)),
+        quarantined
+      }
+    },
+    parseRecord(record) {
+      const result = parseUSGSFeature(JSON.parse(record.body))
+      return 'earthquake' in result ? result.earthquake : undefined
+    },
+    fetchRecord: earthquakeId => fetchUSGSEventRecord(earthquakeId, name, userAgent)
+  }
+}
+
+export const USGS_FDSN_QUERY = 'https://earthquake.usgs.gov/fdsnws/event/1/query'
+
+/**
+ * Non-2xx response from a USGS service, with the server's Retry-After hint when given
+ */
+export class USGSRequestError extends Error {
+  constructor(public readonly status: number, statusText: string, public readonly retryAfterMs?: number) {
+    super(`USGS API error: ${status} ${statusText}`)
+    this.name = 'USGSRequestError'
+  }
+}
+
+interface USGSEventPageQuery {
+  startTime: number
+  endTime: number
+  minMagnitude?: number
+  offset?: number                // 1-based, as in the FDSN spec
+  limit?: number                 // USGS allows at most 20000
+  userAgent?: string
+}
+
+/**
+ * One page of the USGS FDSN event catalog for an arbitrary time range, oldest first
+ * Uses `format=geojson`, so events go through the same validation as the feed;
+ * the page size is `earthquakes.length + quarantined.length`.
+ */
+export async function fetchUSGSEventPage({
+  startTime,
+  endTime,
+  minMagnitude,
+  offset = 1,
+  limit = 500,
+  userAgent = USER_AGENT
+}: USGSEventPageQuery): Promise<Required<SourceFetch>> {
+  const params = new URLSearchParams({
+    format: 'geojson',
+    orderby: 'time-asc',
+    starttime: new Date(startTime).toISOString(),
+    endtime: new Date(endTime).toISOString(),
+    offset: String(offset),
+    limit: String(limit)
+  })
+  if (minMagnitude !== undefined) params.set('minmagnitude', String(minMagnitude))
+
+  const response = await fetch(`${USGS_FDSN_QUERY}?${params}`, {
+    headers: {
+      'User-Agent': userAgent
+    }
+  })
+
+  if (response.status === 204) return { earthquakes: [], quarantined: [] }
+
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('retry-after'))
+    throw new USGSRequestError(response.status, response.statusText, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined)
+  }
+
+  const { earthquakes, quarantined } = parseUSGSResponse(await response.json(), 'usgs')
+  return { earthquakes, quarantined }
+}
+
+/**
+ * The catalog's current GeoJSON feature for one event, as a source record
+ * Undefined when USGS no longer knows the event.
+ */
+export async function fetchUSGSEventRecord(eventId: string, source = 'usgs', userAgent = USER_AGENT): Promise<SourceRecord | undefined> {
+  const params = new URLSearchParams({ format: 'geojson', eventid: eventId })
+  const response = await fetch(`${USGS_FDSN_QUERY}?${params}`, {
+    headers: {
+      'User-Agent': userAgent
+    }
+  })
+
+  if (response.status === 404 || response.status === 204) return undefined
+
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('retry-after'))
+    throw new USGSRequestError(response.status, response.statusText, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined)
+  }
+
+  return createSourceRecord(source, 'geojson', canonicalJson(await response.json()))
+}
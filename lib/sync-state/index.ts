@@ -0,0 +1,120 @@
+import { resolve } from 'path'
+import type { PublishedSnapshot } from '@/lib/earthquake-revisions'
+import type { FailedPublish } from '@/lib/publish-retries'
+import type { RetractionReason, SourceRecord } from '@/types/earthquake'
+import { FileKeyValueClient, KeyValueSyncStateStore, RestKeyValueClient } from './kv-store'
+
+/**
+ * Persistent sync state for the USGS oracle
+ *
+ * Keeps the sync cursor, every processed earthquake ID and the retry queue
+ * of failed publishes outside the serverless process, so cold starts and
+ * redeploys neither republish duplicates nor skip quakes. Also archives the
+ * raw source records behind published quakes, for provenance checks, and holds
+ * the publish lock that keeps two publishers off the same nonces.
+ */
+
+export interface SyncCursor {
+  lastProcessedId: string | null
+  lastProcessedTime: number      // Unix timestamp in ms of the newest processed quake
+}
+
+export interface ProcessedEarthquake {
+  earthquakeId: string
+  time: number                   // Origin time in ms
+  processedAt: number            // When the oracle published it
+  txHash?: string
+  publishedAs?: string           // Primary ID when this source ID was merged into another source's event
+  published?: PublishedSnapshot  // Values as last published, for revision detection
+  sourceHash?: string            // Hash of the archived source record behind those values
+  source?: string                // Name of the source the primary record came from
+  missingSince?: number          // First sync that no longer saw the event in its source
+  retractedAt?: number           // When a retraction record was published
+  retractionReason?: RetractionReason
+}
+
+export interface SyncStateStore {
+  getCursor(): Promise<SyncCursor | null>
+  setCursor(cursor: SyncCursor): Promise<void>
+  /** Returns the processed records for whichever of `ids` have been published */
+  getProcessed(ids: string[]): Promise<Map<string, ProcessedEarthquake>>
+  markProcessed(records: ProcessedEarthquake[]): Promise<void>
+  /** Processed records with an origin time in [since, until) */
+  listProcessed(since: number, until: number): Promise<ProcessedEarthquake[]>
+  /** Every queued failed publish, dead-lettered ones included */
+  listFailed(): Promise<FailedPublish[]>
+  saveFailed(entries: FailedPublish[]): Promise<void>
+  removeFailed(ids: string[]): Promise<void>
+  /** Keep raw source records, keyed by their hash (existing records are left as they are) */
+  archiveSourceRecords(records: SourceRecord[]): Promise<void>
+  getSourceRecord(hash: string): Promise<SourceRecord | null>
+  /**
+   * Take the publish lock for `owner`, or renew it when `owner` already holds it
+   * False while another owner holds it - the cron route and the backfill take nonces
+   * from the same pending count, so only one of them may publish at a time.
+   */
+  acquirePublishLock(owner: string, ttlMs: number): Promise<boolean>
+  /** Release the publish lock if `owner` still holds it */
+  releasePublishLock(owner: string): Promise<void>
+  close(): Promise<void>
+}
+
+// A publish lock not renewed for this long is taken to belong to a crashed run
+export const PUBLISH_LOCK_TTL_MS = 10 * 60 * 1000
+
+export type SyncStateStoreKind = 'file' | 'sqlite' | 'kv'
+
+const DEFAULT_FILE_PATH = '.data/sync-state.json'
+const DEFAULT_SQLITE_PATH = '.data/sync-state.db'
+
+/**
+ * Create a store from environment variables:
+ * - SYNC_STATE_STORE: 'file' | 'sqlite' | 'kv' (defaults to 'kv' when KV_REST_API_URL is set, else 'file')
+ * - SYNC_STATE_PATH: file or database path for the file/sqlite stores
+ * - KV_REST_API_URL / KV_REST_API_TOKEN: hosted KV (Vercel KV, Upstash) REST credentials
+ */
+export async function createSyncStateStore(): Promise<SyncStateStore> {
+  const kind = (process.env.SYNC_STATE_STORE?.trim() ||
+    (process.env.KV_REST_API_URL ? 'kv' : 'file')) as SyncStateStoreKind
+
+  switch (kind) {
+    case 'file': {
+      const path = resolve(process.cwd(), process.env.SYNC_STATE_PATH || DEFAULT_FILE_PATH)
+      return new KeyValueSyncStateStore(new FileKeyValueClient(path))
+    }
+    case 'sqlite': {
+      // Loaded lazily so the native module is only required when selected
+      const { SqliteSyncStateStore } = await import('./sqlite-store')
+      const path = resolve(process.cwd(), process.env.SYNC_STATE_PATH || DEFAULT_SQLITE_PATH)
+      return new SqliteSyncStateStore(path)
+    }
+    case 'kv': {
+      const url = process.env.KV_REST_API_URL
+      const token = process.env.KV_REST_API_TOKEN
+      if (!url || !token) {
+        throw new Error('SYNC_STATE_STORE=kv requires KV_REST_API_URL and KV_REST_API_TOKEN')
+      }
+      return new KeyValueSyncStateStore(new RestKeyValueClient(url, token))
+    }
+    default:
+      throw new Error(`Unknown SYNC_STATE_STORE "${kind}". Expected one of: file, sqlite, kv`)
+  }
+}
+
+let storePromise: Promise<SyncStateStore> | null = null
+
+/**
+ * Shared store instance for the current process
+ */
+export function getSyncStateStore(): Promise<SyncStateStore> {
+  if (!storePromise) {
+    storePromise = createSyncStateStore().catch(error => {
+      storePromise = null
+      throw error
+    })
+  }
+  return storePromise
+}
+
+export { FileKeyValueClient, KeyValueSyncStateStore, RestKeyValueClient } from './kv-store'
+export type { KeyValueClient } from './kv-store'
@@ -0,0 +1,356 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import type { FailedPublish } from '@/lib/publish-retries'
+import type { SourceRecord } from '@/types/earthquake'
+import type { ProcessedEarthquake, SyncCursor, SyncStateStore } from './index'
+
+/**
+ * Minimal key-value contract the sync state needs.
+ * Any hosted KV (Vercel KV, Upstash, Cloudflare KV, Redis) can back the
+ * oracle by implementing these methods over string values and string sets.
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>
+  getMany(keys: string[]): Promise<(string | null)[]>
+  set(key: string, value: string): Promise<void>
+  /** Write several keys in one round trip */
+  setMany(entries: Array<[key: string, value: string]>): Promise<void>
+  delete(key: string): Promise<void>
+  /** Add members to the set at each key, atomically per key (SADD) */
+  addToSets(members: Array<[key: string, members: string[]]>): Promise<void>
+  /** Remove members from the set at each key, atomically per key (SREM) */
+  removeFromSets(members: Array<[key: string, members: string[]]>): Promise<void>
+  /** Members of the set at each key, in one round trip (empty for a missing key) */
+  getSetMembers(keys: string[]): Promise<string[][]>
+  /** Hold `key` for `owner` for `ttlMs`, renewing it for the same owner; false while another owner holds it */
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean>
+  /** Delete `key` if `owner` still holds it */
+  releaseLease(key: string, owner: string): Promise<void>
+}
+
+const CURSOR_KEY = 'cursor'
+const PROCESSED_PREFIX = 'processed:'
+// Processed IDs bucketed by UTC day of origin time, so time-window listing needs no KV scan
+const DAY_INDEX_PREFIX = 'processed-day-set:'
+const DAY_MS = 24 * 60 * 60 * 1000
+// Retry queue: one key per failed earthquake plus a set of the queued IDs
+const FAILED_PREFIX = 'failed:'
+const FAILED_INDEX_KEY = 'failed-index'
+// Raw source records, content-addressed by their keccak256 hash
+const SOURCE_RECORD_PREFIX = 'source-record:'
+const PUBLISH_LOCK_KEY = 'publish-lock'
+
+function dayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/**
+ * SyncStateStore on top of any KeyValueClient
+ * Each processed earthquake is its own key, so lookups stay cheap as history grows.
+ */
+export class KeyValueSyncStateStore implements SyncStateStore {
+  constructor(private readonly client: KeyValueClient, private readonly prefix = 'earthquake-sync:') {}
+
+  private key(name: string): string {
+    return `${this.prefix}${name}`
+  }
+
+  async getCursor(): Promise<SyncCursor | null> {
+    const raw = await this.client.get(this.key(CURSOR_KEY))
+    return raw ? JSON.parse(raw) as SyncCursor : null
+  }
+
+  async setCursor(cursor: SyncCursor): Promise<void> {
+    await this.client.set(this.key(CURSOR_KEY), JSON.stringify(cursor))
+  }
+
+  async getProcessed(ids: string[]): Promise<Map<string, ProcessedEarthquake>> {
+    const processed = new Map<string, ProcessedEarthquake>()
+    if (ids.length === 0) return processed
+
+    const values = await this.client.getMany(ids.map(id => this.key(PROCESSED_PREFIX + id)))
+    values.forEach((raw, i) => {
+      if (raw) processed.set(ids[i], JSON.parse(raw) as ProcessedEarthquake)
+    })
+    return processed
+  }
+
+  async markProcessed(records: ProcessedEarthquake[]): Promise<void> {
+    if (records.length === 0) return
+
+    const idsByDay = new Map<string, string[]>()
+    for (const record of records) {
+      const day = dayKey(record.time)
+      idsByDay.set(day, [...(idsByDay.get(day) ?? []), record.earthquakeId])
+    }
+
+    await this.client.setMany(records.map(record => [this.key(PROCESSED_PREFIX + record.earthquakeId), JSON.stringify(record)]))
+    // Set adds, so overlapping runs can't drop each other's IDs
+    await this.client.addToSets([...idsByDay].map(([day, ids]) => [this.key(DAY_INDEX_PREFIX + day), ids]))
+  }
+
+  async listProcessed(since: number, until: number): Promise<ProcessedEarthquake[]> {
+    const days: string[] = []
+    for (let time = since - (since % DAY_MS); time < until; time += DAY_MS) {
+      days.push(dayKey(time))
+    }
+
+    const indexes = await this.client.getSetMembers(days.map(day => this.key(DAY_INDEX_PREFIX + day)))
+    const processed = await this.getProcessed([...new Set(indexes.flat())])
+
+    return [...processed.values()]
+      .filter(record => record.time >= since && record.time < until)
+      .sort((a, b) => a.time - b.time)
+  }
+
+  async listFailed(): Promise<FailedPublish[]> {
+    const [ids] = await this.client.getSetMembers([this.key(FAILED_INDEX_KEY)])
+    const values = await this.client.getMany(ids.map(id => this.key(FAILED_PREFIX + id)))
+    return values.flatMap(raw => raw ? [JSON.parse(raw) as FailedPublish] : [])
+  }
+
+  async saveFailed(entries: FailedPublish[]): Promise<void> {
+    if (entries.length === 0) return
+
+    await this.client.setMany(entries.map(entry => [this.key(FAILED_PREFIX + entry.earthquakeId), JSON.stringify(entry)]))
+    // Set adds, like the day index - overlapping runs must not drop each other's failures
+    await this.client.addToSets([[this.key(FAILED_INDEX_KEY), entries.map(entry => entry.earthquakeId)]])
+  }
+
+  async removeFailed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    await this.client.removeFromSets([[this.key(FAILED_INDEX_KEY), ids]])
+    for (const id of ids) {
+      await this.client.delete(this.key(FAILED_PREFIX + id))
+    }
+  }
+
+  async archiveSourceRecords(records: SourceRecord[]): Promise<void> {
+    if (records.length === 0) return
+
+    const keys = records.map(record => this.key(SOURCE_RECORD_PREFIX + record.hash.toLowerCase()))
+    const existing = await this.client.getMany(keys)
+    const missing = records.flatMap((record, i): Array<[string, string]> => existing[i] ? [] : [[keys[i], JSON.stringify(record)]])
+    if (missing.length > 0) await this.client.setMany(missing)
+  }
+
+  async getSourceRecord(hash: string): Promise<SourceRecord | null> {
+    const raw = await this.client.get(this.key(SOURCE_RECORD_PREFIX + hash.toLowerCase()))
+    return raw ? JSON.parse(raw) as SourceRecord : null
+  }
+
+  acquirePublishLock(owner: string, ttlMs: number): Promise<boolean> {
+    return this.client.acquireLease(this.key(PUBLISH_LOCK_KEY), owner, ttlMs)
+  }
+
+  releasePublishLock(owner: string): Promise<void> {
+    return this.client.releaseLease(this.key(PUBLISH_LOCK_KEY), owner)
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release - clients are stateless or flush on every write
+  }
+}
+
+/**
+ * File-backed KeyValueClient: one JSON object on disk
+ * Writes are serialized and atomic (temp file + rename) so a crash never leaves half a file;
+ * a batch is one write. Sets are stored as JSON arrays, leases as their owner and expiry.
+ * Taking a lease reloads the file, so a process picks up what the previous holder wrote.
+ * Good for local development and single-instance deployments - serverless
+ * filesystems are ephemeral, so use a hosted KV or SQLite on a volume there.
+ */
+export class FileKeyValueClient implements KeyValueClient {
+  private data: Map<string, string> | null = null
+  // Shared by concurrent first calls, so they all update the same map
+  private loading: Promise<Map<string, string>> | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(private readonly path: string) {}
+
+  private load(): Promise<Map<string, string>> {
+    this.loading ??= (async () => {
+      try {
+        const raw = await readFile(this.path, 'utf8')
+        this.data = new Map(Object.entries(JSON.parse(raw) as Record<string, string>))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          this.loading = null
+          throw error
+        }
+        this.data = new Map()
+      }
+      return this.data
+    })()
+    return this.loading
+  }
+
+  private flush(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const snapshot = JSON.stringify(Object.fromEntries(this.data ?? []), null, 2)
+      const tmpPath = `${this.path}.tmp`
+      await mkdir(dirname(this.path), { recursive: true })
+      await writeFile(tmpPath, snapshot, 'utf8')
+      await rename(tmpPath, this.path)
+    })
+    return this.writeChain
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.load()).get(key) ?? null
+  }
+
+  async getMany(keys: string[]): Promise<(string | null)[]> {
+    const data = await this.load()
+    return keys.map(key => data.get(key) ?? null)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    (await this.load()).set(key, value)
+    await this.flush()
+  }
+
+  async setMany(entries: Array<[string, string]>): Promise<void> {
+    if (entries.length === 0) return
+    const data = await this.load()
+    entries.forEach(([key, value]) => data.set(key, value))
+    await this.flush()
+  }
+
+  async delete(key: string): Promise<void> {
+    (await this.load()).delete(key)
+    await this.flush()
+  }
+
+  async addToSets(members: Array<[string, string[]]>): Promise<void> {
+    if (members.length === 0) return
+    const data = await this.load()
+    // Read and update in one synchronous step - no other write can interleave
+    for (const [key, added] of members) {
+      const existing: string[] = JSON.parse(data.get(key) ?? '[]')
+      data.set(key, JSON.stringify([...new Set([...existing, ...added])]))
+    }
+    await this.flush()
+  }
+
+  async removeFromSets(members: Array<[string, string[]]>): Promise<void> {
+    if (members.length === 0) return
+    const data = await this.load()
+    for (const [key, removed] of members) {
+      const remaining = (JSON.parse(data.get(key) ?? '[]') as string[]).filter(member => !removed.includes(member))
+      if (remaining.length > 0) data.set(key, JSON.stringify(remaining))
+      else data.delete(key)
+    }
+    await this.flush()
+  }
+
+  async getSetMembers(keys: string[]): Promise<string[][]> {
+    const data = await this.load()
+    return keys.map(key => JSON.parse(data.get(key) ?? '[]') as string[])
+  }
+
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    await this.writeChain
+    this.loading = null
+    const data = await this.load()
+    const lease = data.has(key) ? JSON.parse(data.get(key)!) as { owner: string; expiresAt: number } : null
+    if (lease && lease.owner !== owner && lease.expiresAt > Date.now()) return false
+
+    data.set(key, JSON.stringify({ owner, expiresAt: Date.now() + ttlMs }))
+    await this.flush()
+    return true
+  }
+
+  async releaseLease(key: string, owner: string): Promise<void> {
+    const data = await this.load()
+    if (!data.has(key) || (JSON.parse(data.get(key)!) as { owner: string }).owner !== owner) return
+    data.delete(key)
+    await this.flush()
+  }
+}
+
+/**
+ * Upstash-compatible REST client (also what Vercel KV exposes)
+ * Batches use MSET or the /pipeline endpoint, one round trip each; leases are
+ * checked and set in one Lua script, so two owners can never both hold one.
+ */
+export class RestKeyValueClient implements KeyValueClient {
+  constructor(private readonly url: string, private readonly token: string) {}
+
+  private async request(path: string, body: unknown): Promise<unknown> {
+    const response = await fetch(`${this.url.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      throw new Error(`KV request failed: ${response.status} ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  private async command<T>(args: string[]): Promise<T> {
+    const { result, error } = await this.request('', args) as { result?: T; error?: string }
+    if (error) throw new Error(`KV error: ${error}`)
+    return result as T
+  }
+
+  private async pipeline<T>(commands: string[][]): Promise<T[]> {
+    if (commands.length === 0) return []
+    const responses = await this.request('/pipeline', commands) as Array<{ result?: T; error?: string }>
+    const failed = responses.find(response => response.error)
+    if (failed) throw new Error(`KV error: ${failed.error}`)
+    return responses.map(response => response.result as T)
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.command<string | null>(['GET', key])
+  }
+
+  getMany(keys: string[]): Promise<(string | null)[]> {
+    return keys.length === 0 ? Promise.resolve([]) : this.command<(string | null)[]>(['MGET', ...keys])
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.command(['SET', key, value])
+  }
+
+  async setMany(entries: Array<[string, string]>): Promise<void> {
+    if (entries.length > 0) await this.command(['MSET', ...entries.flat()])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', key])
+  }
+
+  async addToSets(members: Array<[string, string[]]>): Promise<void> {
+    await this.pipeline(members.filter(([, added]) => added.length > 0).map(([key, added]) => ['SADD', key, ...added]))
+  }
+
+  async removeFromSets(members: Array<[string, string[]]>): Promise<void> {
+    await this.pipeline(members.filter(([, removed]) => removed.length > 0).map(([key, removed]) => ['SREM', key, ...removed]))
+  }
+
+  getSetMembers(keys: string[]): Promise<string[][]> {
+    return this.pipeline<string[]>(keys.map(key => ['SMEMBERS', key]))
+  }
+
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const script = `local holder = redis.call('GET', KEYS[1])
+if holder and holder ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1`
+    return await this.command<number>(['EVAL', script, '1', key, owner, String(ttlMs)]) === 1
+  }
+
+  async releaseLease(key: string, owner: string): Promise<void> {
+    const script = `if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+return 0`
+    await this.command(['EVAL', script, '1', key, owner])
+  }
+}
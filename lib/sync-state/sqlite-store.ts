@@ -0,0 +1,170 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type { FailedPublish } from '@/lib/publish-retries'
+import type { SourceRecord } from '@/types/earthquake'
+import type { ProcessedEarthquake, SyncCursor, SyncStateStore } from './index'
+
+/**
+ * SQLite-backed SyncStateStore
+ * Suited to long-running hosts (a VPS, a container with a volume) where the
+ * processed-ID history can grow large and be queried by time.
+ */
+export class SqliteSyncStateStore implements SyncStateStore {
+  private readonly db: Database.Database
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true })
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_cursor (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        last_processed_id TEXT,
+        last_processed_time INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS processed_earthquakes (
+        earthquake_id TEXT PRIMARY KEY,
+        time INTEGER NOT NULL,
+        record TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS processed_earthquakes_time ON processed_earthquakes (time);
+      CREATE TABLE IF NOT EXISTS failed_publishes (
+        earthquake_id TEXT PRIMARY KEY,
+        record TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS source_records (
+        hash TEXT PRIMARY KEY,
+        record TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS locks (
+        name TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+  }
+
+  async getCursor(): Promise<SyncCursor | null> {
+    const row = this.db
+      .prepare('SELECT last_processed_id, last_processed_time FROM sync_cursor WHERE id = 1')
+      .get() as { last_processed_id: string | null; last_processed_time: number } | undefined
+
+    return row
+      ? { lastProcessedId: row.last_processed_id, lastProcessedTime: row.last_processed_time }
+      : null
+  }
+
+  async setCursor(cursor: SyncCursor): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO sync_cursor (id, last_processed_id, last_processed_time) VALUES (1, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          last_processed_id = excluded.last_processed_id,
+          last_processed_time = excluded.last_processed_time
+      `)
+      .run(cursor.lastProcessedId, cursor.lastProcessedTime)
+  }
+
+  async getProcessed(ids: string[]): Promise<Map<string, ProcessedEarthquake>> {
+    const processed = new Map<string, ProcessedEarthquake>()
+    const select = this.db.prepare('SELECT record FROM processed_earthquakes WHERE earthquake_id = ?')
+
+    for (const id of ids) {
+      const row = select.get(id) as { record: string } | undefined
+      if (row) processed.set(id, JSON.parse(row.record) as ProcessedEarthquake)
+    }
+    return processed
+  }
+
+  async markProcessed(records: ProcessedEarthquake[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT INTO processed_earthquakes (earthquake_id, time, record) VALUES (?, ?, ?)
+      ON CONFLICT (earthquake_id) DO UPDATE SET time = excluded.time, record = excluded.record
+    `)
+    const insertAll = this.db.transaction((rows: ProcessedEarthquake[]) => {
+      for (const record of rows) {
+        upsert.run(record.earthquakeId, record.time, JSON.stringify(record))
+      }
+    })
+    insertAll(records)
+  }
+
+  async listProcessed(since: number, until: number): Promise<ProcessedEarthquake[]> {
+    const rows = this.db
+      .prepare('SELECT record FROM processed_earthquakes WHERE time >= ? AND time < ? ORDER BY time')
+      .all(since, until) as Array<{ record: string }>
+
+    return rows.map(row => JSON.parse(row.record) as ProcessedEarthquake)
+  }
+
+  async listFailed(): Promise<FailedPublish[]> {
+    const rows = this.db
+      .prepare('SELECT record FROM failed_publishes ORDER BY earthquake_id')
+      .all() as Array<{ record: string }>
+
+    return rows.map(row => JSON.parse(row.record) as FailedPublish)
+  }
+
+  async saveFailed(entries: FailedPublish[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT INTO failed_publishes (earthquake_id, record) VALUES (?, ?)
+      ON CONFLICT (earthquake_id) DO UPDATE SET record = excluded.record
+    `)
+    const saveAll = this.db.transaction((rows: FailedPublish[]) => {
+      for (const entry of rows) {
+        upsert.run(entry.earthquakeId, JSON.stringify(entry))
+      }
+    })
+    saveAll(entries)
+  }
+
+  async removeFailed(ids: string[]): Promise<void> {
+    const remove = this.db.prepare('DELETE FROM failed_publishes WHERE earthquake_id = ?')
+    const removeAll = this.db.transaction((rows: string[]) => {
+      for (const id of rows) {
+        remove.run(id)
+      }
+    })
+    removeAll(ids)
+  }
+
+  async archiveSourceRecords(records: SourceRecord[]): Promise<void> {
+    const insert = this.db.prepare('INSERT INTO source_records (hash, record) VALUES (?, ?) ON CONFLICT (hash) DO NOTHING')
+    const insertAll = this.db.transaction((rows: SourceRecord[]) => {
+      for (const record of rows) {
+        insert.run(record.hash.toLowerCase(), JSON.stringify(record))
+      }
+    })
+    insertAll(records)
+  }
+
+  async getSourceRecord(hash: string): Promise<SourceRecord | null> {
+    const row = this.db
+      .prepare('SELECT record FROM source_records WHERE hash = ?')
+      .get(hash.toLowerCase()) as { record: string } | undefined
+
+    return row ? JSON.parse(row.record) as SourceRecord : null
+  }
+
+  async acquirePublishLock(owner: string, ttlMs: number): Promise<boolean> {
+    // Taken or renewed only where no other owner holds an unexpired lock - one statement, so atomic
+    const now = Date.now()
+    const result = this.db
+      .prepare(`
+        INSERT INTO locks (name, owner, expires_at) VALUES ('publish', ?, ?)
+        ON CONFLICT (name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+        WHERE locks.owner = excluded.owner OR locks.expires_at <= ?
+      `)
+      .run(owner, now + ttlMs, now)
+    return result.changes > 0
+  }
+
+  async releasePublishLock(owner: string): Promise<void> {
+    this.db.prepare(`DELETE FROM locks WHERE name = 'publish' AND owner = ?`).run(owner)
+  }
+
+  async close(): Promise<void> {
+    this.db.close()
+  }
+}
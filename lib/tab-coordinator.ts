@@ -0,0 +1,76 @@
+'use client'
+
+/**
+ * Cross-tab coordination
+ *
+ * Tabs using the same name elect one leader with the Web Locks API: the leader
+ * holds the lock until it closes, then the browser grants it to the next tab
+ * waiting for it - failover needs no heartbeat. Messages travel over a
+ * BroadcastChannel of the same name and never reach their sender. Where either
+ * API is missing, every tab leads on its own.
+ */
+
+export interface TabCoordinator<T> {
+  readonly isLeader: boolean
+  /** Send to every other tab on the channel */
+  post(message: T): void
+  /** Leave the channel, handing leadership to another tab */
+  close(): void
+}
+
+export interface TabCoordinatorOptions<T> {
+  onLeader: () => void           // This tab became the leader
+  onMessage: (message: T) => void
+}
+
+export function createTabCoordinator<T>(name: string, { onLeader, onMessage }: TabCoordinatorOptions<T>): TabCoordinator<T> {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  const abort = new AbortController()
+  let release: (() => void) | null = null
+  let isLeader = false
+  let isClosed = false
+
+  if (channel) {
+    channel.onmessage = event => {
+      if (!isClosed) onMessage(event.data as T)
+    }
+  }
+
+  const becomeLeader = () => {
+    if (isClosed) return
+    isLeader = true
+    onLeader()
+  }
+
+  if (channel && locks) {
+    // The lock is held for as long as this promise is pending
+    locks.request(name, { signal: abort.signal }, () => new Promise<void>(resolve => {
+      release = resolve
+      becomeLeader()
+    })).catch(error => {
+      if (!abort.signal.aborted) {
+        console.warn(`⚠️  Tab leader election failed for ${name}, leading in this tab:`, error)
+        becomeLeader()
+      }
+    })
+  } else {
+    // Defer like the lock callback, so the caller's setup has finished
+    queueMicrotask(becomeLeader)
+  }
+
+  return {
+    get isLeader() {
+      return isLeader
+    },
+    post(message: T) {
+      if (!isClosed) channel?.postMessage(message)
+    },
+    close() {
+      isClosed = true
+      abort.abort()
+      release?.()
+      channel?.close()
+    }
+  }
+}
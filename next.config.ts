@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The oracle config is read from disk at runtime, so ship it with the sync route
+  outputFileTracingIncludes: {
+    "/api/cron/sync-earthquakes": ["./oracle.config.json"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,325 @@
+/**
+ * Historical Backfill Script
+ *
+ * Publishes older earthquakes from the USGS FDSN event catalog. The range is
+ * split into chunks that are paged through oldest first; progress is
+ * checkpointed after every page so an interrupted run resumes where it stopped.
+ * Events go through the same transform/encoding as the cron route, and anything
+ * already published (sync state or on-chain) is skipped.
+ *
+ * Both take nonces from the wallet's pending transaction count, so the backfill
+ * holds the sync state store's publish lock for the whole run: it refuses to
+ * start while a sync is publishing, and cron runs are skipped until it ends.
+ * Don't point it at a different store than the deployed cron uses.
+ *
+ * Usage:
+ *   npm run backfill -- --start 2024-01-01 [--end 2024-02-01] [--min-magnitude 4.5]
+ *
+ * Options:
+ *   --chunk-days <n>   Days per FDSN query window (default 7)
+ *   --page-size <n>    Events per FDSN request (default 500, USGS max 20000)
+ *   --delay-ms <n>     Pause between FDSN requests (default 1000)
+ *   --dry-run          Fetch and filter only - nothing is published or checkpointed
+ *   --reset            Ignore any saved checkpoint and start from --start
+ */
+
+import { config } from 'dotenv'
+import { resolve, dirname } from 'path'
+import { hostname } from 'os'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+
+// Load environment variables FIRST
+config({ path: resolve(process.cwd(), '.env.local') })
+
+import { SDK } from '@somnia-chain/streams'
+import { toHex } from 'viem'
+import { getPublicClient } from '../lib/sdk'
+import { EARTHQUAKE_SCHEMA_ID, PUBLISHER_ADDRESS } from '../lib/constants'
+import { ACTIVE_EARTHQUAKE_CODECS, SchemaEncodingError } from '../lib/schema-codecs'
+import { fetchUSGSEventPage, USGSRequestError } from '../lib/sources'
+import { getOracleConfig, matchesOracleConfig, type OracleConfig } from '../lib/oracle-config'
+import { createSyncStateStore, PUBLISH_LOCK_TTL_MS, type ProcessedEarthquake } from '../lib/sync-state'
+import { publishConcurrently, toPendingPublish, type PublishJob } from '../lib/publisher'
+import { toPublishJob } from '../lib/publish-jobs'
+import { recordFailure, type FailedPublish, type PublishItem } from '../lib/publish-retries'
+import { toPublishedSnapshot } from '../lib/earthquake-revisions'
+import type { Earthquake } from '../types/earthquake'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CHECKPOINT_PATH = resolve(process.cwd(), '.data/backfill-checkpoint.json')
+
+// FDSN requests failing with 429/5xx or a network error are retried with backoff
+const MAX_FETCH_ATTEMPTS = 6
+const FETCH_BACKOFF_MS = 2000
+
+interface Checkpoint {
+  runKey: string                 // Range + magnitude floor the checkpoint belongs to
+  chunkStart: number             // Start of the chunk being paged through
+  offset: number                 // Next FDSN offset (1-based) within that chunk
+  published: number
+  skipped: number
+  quarantined: number            // Malformed USGS features left out
+  failed: number
+  completed: boolean
+  updatedAt: string
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function parseDate(value: string | undefined, name: string): number {
+  const time = value ? Date.parse(value) : NaN
+  if (!Number.isFinite(time)) {
+    throw new Error(`--${name} must be a date like 2024-01-01 or 2024-01-01T12:00:00Z, got ${JSON.stringify(value)}`)
+  }
+  return time
+}
+
+function parsePositive(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number, got ${JSON.stringify(value)}`)
+  }
+  return number
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function loadCheckpoint(): Promise<Checkpoint | null> {
+  try {
+    return JSON.parse(await readFile(CHECKPOINT_PATH, 'utf8')) as Checkpoint
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function saveCheckpoint(checkpoint: Checkpoint): Promise<void> {
+  checkpoint.updatedAt = new Date().toISOString()
+  await mkdir(dirname(CHECKPOINT_PATH), { recursive: true })
+  await writeFile(`${CHECKPOINT_PATH}.tmp`, JSON.stringify(checkpoint, null, 2), 'utf8')
+  await rename(`${CHECKPOINT_PATH}.tmp`, CHECKPOINT_PATH)
+}
+
+/**
+ * Fetch one FDSN page, backing off on rate limits and transient failures
+ */
+async function fetchPageWithBackoff(query: Parameters<typeof fetchUSGSEventPage>[0]): ReturnType<typeof fetchUSGSEventPage> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchUSGSEventPage(query)
+    } catch (error) {
+      const retryable = !(error instanceof USGSRequestError) || error.status === 429 || error.status >= 500
+      if (!retryable || attempt >= MAX_FETCH_ATTEMPTS) throw error
+
+      const waitMs = error instanceof USGSRequestError && error.retryAfterMs
+        ? error.retryAfterMs
+        : FETCH_BACKOFF_MS * 2 ** (attempt - 1)
+      console.warn(`   ⏳ ${error instanceof Error ? error.message : error} - retrying in ${Math.round(waitMs / 1000)}s (attempt ${attempt}/${MAX_FETCH_ATTEMPTS})`)
+      await sleep(waitMs)
+    }
+  }
+}
+
+async function backfill() {
+  const startTime = parseDate(getArg('start'), 'start')
+  const endTime = getArg('end') ? parseDate(getArg('end'), 'end') : Date.now()
+  if (startTime >= endTime) throw new Error('--start must be before --end')
+
+  const { config: oracleConfig } = getOracleConfig()
+  const minMagnitude = getArg('min-magnitude') !== undefined
+    ? Number(getArg('min-magnitude'))
+    : oracleConfig.magnitude.min
+  if (minMagnitude !== undefined && !Number.isFinite(minMagnitude)) {
+    throw new Error(`--min-magnitude must be a number, got ${JSON.stringify(getArg('min-magnitude'))}`)
+  }
+
+  const chunkMs = parsePositive(getArg('chunk-days'), 'chunk-days', 7) * DAY_MS
+  const pageSize = Math.min(20000, Math.floor(parsePositive(getArg('page-size'), 'page-size', 500)))
+  const delayMs = parsePositive(getArg('delay-ms'), 'delay-ms', 1000)
+  const dryRun = process.argv.includes('--dry-run')
+
+  // The deployment's slice (regions, depth) still applies; the magnitude floor comes from the command
+  const filterConfig: OracleConfig = { ...oracleConfig, magnitude: { ...oracleConfig.magnitude, min: minMagnitude } }
+
+  console.log('\n📚 Earthquake backfill')
+  console.log(`   Range: ${new Date(startTime).toISOString()} → ${new Date(endTime).toISOString()}`)
+  console.log(`   Min magnitude: ${minMagnitude ?? 'none'}`)
+  console.log(`   Chunks of ${chunkMs / DAY_MS} day(s), ${pageSize} events per page, ${delayMs}ms between requests`)
+  if (dryRun) console.log('   🧪 DRY RUN - nothing will be published')
+
+  if (!dryRun && (!EARTHQUAKE_SCHEMA_ID || !PUBLISHER_ADDRESS)) {
+    throw new Error('NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID and NEXT_PUBLIC_PUBLISHER_ADDRESS must be set (run: npm run register-schema)')
+  }
+
+  const runKey = `${startTime}-${endTime}-M${minMagnitude ?? 'any'}`
+  const saved = process.argv.includes('--reset') ? null : await loadCheckpoint()
+  let checkpoint: Checkpoint
+
+  if (saved && saved.runKey === runKey) {
+    if (saved.completed) {
+      console.log('\n✅ This backfill already completed (use --reset to run it again)')
+      return
+    }
+    checkpoint = saved
+    console.log(`\n⏩ Resuming from ${new Date(checkpoint.chunkStart).toISOString()}, offset ${checkpoint.offset} (${checkpoint.published} published so far)`)
+  } else {
+    if (saved && !saved.completed) {
+      console.warn(`\n⚠️  Discarding an unfinished checkpoint for a different run (${saved.runKey})`)
+    }
+    checkpoint = { runKey, chunkStart: startTime, offset: 1, published: 0, skipped: 0, quarantined: 0, failed: 0, completed: false, updatedAt: '' }
+  }
+
+  const store = await createSyncStateStore()
+  const reader = new SDK({ public: getPublicClient() })
+
+  // Held (and renewed) until the run ends, so no cron run publishes from the same nonces
+  const lockOwner = `backfill:${hostname()}:${process.pid}`
+  let lockLost = false
+  let renewLock: ReturnType<typeof setInterval> | undefined
+  if (!dryRun) {
+    if (!await store.acquirePublishLock(lockOwner, PUBLISH_LOCK_TTL_MS)) {
+      await store.close()
+      throw new Error('A sync is publishing (the publish lock is held) - try again once it finishes, or pause the cron')
+    }
+    renewLock = setInterval(() => {
+      store.acquirePublishLock(lockOwner, PUBLISH_LOCK_TTL_MS)
+        .then(renewed => { lockLost ||= !renewed })
+        .catch(error => console.warn('⚠️  Failed to renew the publish lock:', error))
+    }, PUBLISH_LOCK_TTL_MS / 4)
+  }
+
+  /**
+   * Whether a record (in any schema version) already exists on-chain under this earthquake's data ID
+   */
+  const isOnChain = async (earthquakeId: string) => {
+    for (const { schemaId } of ACTIVE_EARTHQUAKE_CODECS) {
+      try {
+        const data = await reader.streams.getByKey(schemaId!, PUBLISHER_ADDRESS, toHex(earthquakeId, { size: 32 }))
+        if (Array.isArray(data) && data.length > 0 && data[0] !== '0x') return true
+      } catch {
+        // Treat lookup failures as "not found" - at worst the record is republished
+      }
+    }
+    return false
+  }
+
+  try {
+    while (checkpoint.chunkStart < endTime) {
+      const chunkEnd = Math.min(checkpoint.chunkStart + chunkMs, endTime)
+      console.log(`\n📅 ${new Date(checkpoint.chunkStart).toISOString()} → ${new Date(chunkEnd).toISOString()}`)
+
+      for (;;) {
+        const { earthquakes: page, quarantined } = await fetchPageWithBackoff({
+          startTime: checkpoint.chunkStart,
+          endTime: chunkEnd,
+          minMagnitude,
+          offset: checkpoint.offset,
+          limit: pageSize,
+          userAgent: oracleConfig.userAgent
+        })
+
+        const candidates = page.filter(quake => !quake.retracted && matchesOracleConfig(quake, filterConfig))
+        const processed = await store.getProcessed(candidates.map(quake => quake.earthquakeId))
+        const fresh: Earthquake[] = []
+
+        for (const quake of candidates) {
+          if (processed.has(quake.earthquakeId) || (!dryRun && await isOnChain(quake.earthquakeId))) continue
+          fresh.push(quake)
+        }
+        const skipped = page.length - fresh.length
+        const pageLength = page.length + quarantined.length
+
+        console.log(`   📄 Offset ${checkpoint.offset}: ${pageLength} events, ${fresh.length} to publish, ${skipped} skipped${quarantined.length > 0 ? `, ${quarantined.length} quarantined` : ''}`)
+        quarantined.forEach(entry => console.warn(`      🚧 ${entry.id ?? '(no id)'}: ${entry.reason}`))
+
+        if (dryRun) {
+          fresh.forEach(quake => console.log(`      • M${quake.magnitude.toFixed(1)} ${quake.earthquakeId} - ${quake.location}`))
+        } else if (fresh.length > 0) {
+          if (lockLost) throw new Error('Lost the publish lock to another publisher')
+          const items: PublishItem[] = []
+          const quakes: Earthquake[] = []
+          const jobs: PublishJob[] = []
+          const failures: FailedPublish[] = []
+
+          for (const quake of fresh) {
+            const item: PublishItem = { type: 'new', earthquakeId: quake.earthquakeId, quake, changes: [] }
+            try {
+              jobs.push(toPublishJob(item, Date.now()))
+              items.push(item)
+              quakes.push(quake)
+            } catch (error) {
+              if (!(error instanceof SchemaEncodingError)) throw error
+              // Values the schema cannot hold - dead-lettered straight away
+              console.error(`   🚫 Cannot encode ${quake.earthquakeId}: ${error.message}`)
+              failures.push(recordFailure(item, error.message, Date.now(), undefined, true))
+            }
+          }
+
+          await store.archiveSourceRecords(quakes.flatMap(quake => quake.sourceRecord ? [quake.sourceRecord] : []))
+          const results = await publishConcurrently(jobs, {
+            maxInFlight: oracleConfig.maxInFlight,
+            receiptTimeoutMs: oracleConfig.receiptTimeoutMs
+          })
+
+          const published: ProcessedEarthquake[] = []
+          results.forEach((result, i) => {
+            const quake = quakes[i]
+            if (result.status === 'confirmed') {
+              published.push({
+                earthquakeId: quake.earthquakeId,
+                time: quake.timestamp,
+                processedAt: Date.now(),
+                txHash: result.txHash,
+                source: 'usgs',
+                published: toPublishedSnapshot(quake),
+                sourceHash: quake.sourceRecord?.hash
+              })
+              if (result.provenanceError) console.warn(`   ⚠️  ${result.key}: published, but its provenance record was not (${result.provenanceError})`)
+            } else {
+              // Hand failures to the cron route's retry queue
+              failures.push(recordFailure(items[i], `${result.status}${result.error ? `: ${result.error}` : ''}`, Date.now(), undefined, false, toPendingPublish(result)))
+            }
+          })
+
+          await store.markProcessed(published)
+          await store.saveFailed(failures)
+          checkpoint.published += published.length
+          checkpoint.failed += failures.length
+          console.log(`   ✅ Published ${published.length}/${fresh.length}${failures.length > 0 ? ` (${failures.length} failed, see npm run dead-letters)` : ''}`)
+        }
+
+        checkpoint.skipped += skipped
+        checkpoint.quarantined += quarantined.length
+        checkpoint.offset += pageLength
+        if (!dryRun) await saveCheckpoint(checkpoint)
+
+        if (pageLength < pageSize) break
+        await sleep(delayMs)
+      }
+
+      checkpoint.chunkStart = chunkEnd
+      checkpoint.offset = 1
+      if (!dryRun) await saveCheckpoint(checkpoint)
+      await sleep(delayMs)
+    }
+
+    checkpoint.completed = true
+    if (!dryRun) await saveCheckpoint(checkpoint)
+
+    console.log(`\n🎉 Backfill complete: ${checkpoint.published} published, ${checkpoint.skipped} skipped, ${checkpoint.quarantined} quarantined, ${checkpoint.failed} failed`)
+  } finally {
+    clearInterval(renewLock)
+    if (!dryRun) await store.releasePublishLock(lockOwner).catch(error => console.warn('⚠️  Failed to release the publish lock:', error))
+    await store.close()
+  }
+}
+
+backfill().catch(error => {
+  console.error(`\n❌ Backfill failed: ${error instanceof Error ? error.message : error}`)
+  console.error('   Progress is checkpointed - run the same command again to resume')
+  process.exit(1)
+})
@@ -1,17 +1,26 @@
 /**
  * Check what earthquake data is actually stored on-chain
+ * Each sample is also read back by key, with its provenance record, to confirm
+ * both writes landed under the earthquake's data ID.
  */
 
 import { config } from 'dotenv'
 import { resolve } from 'path'
-import { getSDK } from '../lib/sdk'
 
+// Load environment variables FIRST (the codec registry reads schema IDs at import)
 config({ path: resolve(process.cwd(), '.env.local') })
 
-// Read directly from process.env (not through constants.ts)
+import { toHex } from 'viem'
+import { getSDK } from '../lib/sdk'
+import { ACTIVE_EARTHQUAKE_CODECS, EARTHQUAKE_CODECS, PROVENANCE_CODEC, type EncodedRecord } from '../lib/schema-codecs'
+
 const EARTHQUAKE_SCHEMA_ID = process.env.NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID as `0x${string}`
 const PUBLISHER_ADDRESS = process.env.NEXT_PUBLIC_PUBLISHER_ADDRESS as `0x${string}`
 
+function hasRecord(data: unknown): data is EncodedRecord[] {
+  return Array.isArray(data) && data.length > 0 && data[0] !== '0x'
+}
+
 async function checkOnChainData() {
   console.log('\n🔍 Checking on-chain earthquake data...\n')
   console.log(`Schema ID: ${EARTHQUAKE_SCHEMA_ID}`)
@@ -28,65 +37,83 @@ async function checkOnChainData() {
   try {
     const sdk = getSDK()
     
-    // Check if schema is registered
-    const isRegistered = await sdk.streams.isDataSchemaRegistered(EARTHQUAKE_SCHEMA_ID)
-    console.log(`Schema registered: ${isRegistered ? '✅ Yes' : '❌ No'}`)
-    
-    if (!isRegistered) {
-      console.log('\n⚠️  Schema not registered! Run: npm run register-schema')
-      return
-    }
-    
-    // Get total count
-    const total = await sdk.streams.totalPublisherDataForSchema(
-      EARTHQUAKE_SCHEMA_ID,
-      PUBLISHER_ADDRESS
-    )
-    
-    console.log(`Total earthquakes on-chain: ${total}`)
-    
-    if (total === BigInt(0)) {
-      console.log('\n⚠️  No earthquakes found on-chain!')
-      console.log('   This could mean:')
-      console.log('   1. The oracle hasn\'t published any earthquakes yet')
-      console.log('   2. The earthquakes are stored under a different publisher address')
-      console.log('   3. The earthquakes are stored under a different schema ID')
-      console.log('\n   Try running: npm run dev-sync:force')
-      return
-    }
-    
-    // Fetch first few earthquakes
-    console.log(`\n📊 Fetching first ${Math.min(Number(total), 5)} earthquakes...\n`)
-    
-    for (let i = 0; i < Math.min(Number(total), 5); i++) {
-      try {
-        const data = await sdk.streams.getAtIndex(
-          EARTHQUAKE_SCHEMA_ID,
-          PUBLISHER_ADDRESS,
-          BigInt(i)
-        )
-        
-        if (Array.isArray(data) && Array.isArray(data[0])) {
-          const decoded = data[0]
-          const id = String(decoded[0]?.value?.value || decoded[0]?.value || '')
-          const location = String(decoded[1]?.value?.value || decoded[1]?.value || '')
-          const mag = Number(decoded[2]?.value?.value || decoded[2]?.value || 0) / 10
-          const timestamp = Number(decoded[6]?.value?.value || decoded[6]?.value || 0)
+    for (const codec of ACTIVE_EARTHQUAKE_CODECS) {
+      const schemaId = codec.schemaId!
+      console.log(`\n── Schema v${codec.version} (${codec.name}): ${schemaId}`)
+      
+      // Check if schema is registered
+      const isRegistered = await sdk.streams.isDataSchemaRegistered(schemaId)
+      console.log(`Schema registered: ${isRegistered ? '✅ Yes' : '❌ No'}`)
+      
+      if (!isRegistered) {
+        console.log('\n⚠️  Schema not registered! Run: npm run register-schema')
+        continue
+      }
+      
+      // Get total count
+      const total = await sdk.streams.totalPublisherDataForSchema(
+        schemaId,
+        PUBLISHER_ADDRESS
+      ) ?? BigInt(0)
+      
+      console.log(`Total earthquakes on-chain: ${total}`)
+      
+      if (total === BigInt(0)) {
+        console.log('\n⚠️  No earthquakes found under this schema!')
+        console.log('   This could mean:')
+        console.log('   1. The oracle hasn\'t published any earthquakes yet')
+        console.log('   2. The earthquakes are stored under a different publisher address')
+        console.log('   3. The earthquakes are stored under a different schema ID')
+        console.log('\n   Try running: npm run dev-sync:force')
+        continue
+      }
+      
+      // Fetch first few earthquakes
+      console.log(`\n📊 Fetching first ${Math.min(Number(total), 5)} earthquakes...\n`)
+      
+      for (let i = 0; i < Math.min(Number(total), 5); i++) {
+        try {
+          const data = await sdk.streams.getAtIndex(
+            schemaId,
+            PUBLISHER_ADDRESS,
+            BigInt(i)
+          )
+          
+          if (!data || data.length === 0) {
+            console.log(`\nEarthquake ${i}: no data`)
+            continue
+          }
+          
+          const quake = codec.decode(data[0] as EncodedRecord)
           
           console.log(`\nEarthquake ${i}:`)
-          console.log(`  ID: ${id}`)
-          console.log(`  Location: ${location}`)
-          console.log(`  Magnitude: ${mag}`)
-          console.log(`  Time: ${new Date(timestamp).toISOString()}`)
-        } else {
-          console.log(`\nEarthquake ${i}:`)
-          console.log(JSON.stringify(data, null, 2))
+          console.log(`  ID: ${quake.earthquakeId}`)
+          console.log(`  Location: ${quake.location}`)
+          console.log(`  Magnitude: ${quake.magnitude}`)
+          console.log(`  Time: ${new Date(quake.timestamp).toISOString()}`)
+          if (quake.alert || quake.status) {
+            console.log(`  Status: ${quake.status ?? 'unknown'}${quake.alert ? `, PAGER ${quake.alert}` : ''}${quake.tsunami ? ', tsunami' : ''}`)
+          }
+          
+          // Read back by key: the earthquake and its provenance record share the data ID
+          const dataId = toHex(quake.earthquakeId, { size: 32 })
+          const byKey = await sdk.streams.getByKey(schemaId, PUBLISHER_ADDRESS, dataId)
+          console.log(`  By key: ${hasRecord(byKey) ? '✅ found' : '❌ missing'}`)
+          if (PROVENANCE_CODEC.schemaId) {
+            const provenance = await sdk.streams.getByKey(PROVENANCE_CODEC.schemaId, PUBLISHER_ADDRESS, dataId)
+            console.log(`  Provenance: ${hasRecord(provenance) ? `✅ ${PROVENANCE_CODEC.decode(provenance[0]).sourceHash}` : '❌ missing'}`)
+          }
+        } catch (error) {
+          console.error(`  Failed to fetch earthquake ${i}:`, error)
         }
-      } catch (error) {
-        console.error(`  Failed to fetch earthquake ${i}:`, error)
       }
     }
     
+    const unconfigured = EARTHQUAKE_CODECS.filter(codec => !codec.schemaId)
+    if (unconfigured.length > 0) {
+      console.log(`\nℹ️  Not configured: ${unconfigured.map(codec => `${codec.name} (${codec.schemaIdEnv})`).join(', ')}`)
+    }
+    
   } catch (error) {
     console.error('\n❌ Error:', error)
   }
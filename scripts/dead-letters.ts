@@ -0,0 +1,78 @@
+/**
+ * Inspect and replay failed earthquake publishes
+ *
+ * Failed publishes are retried automatically with exponential backoff; after
+ * PUBLISH_RETRY.MAX_ATTEMPTS they are dead-lettered and wait for a manual replay.
+ * Replaying requeues an item with fresh attempts - the next sync publishes it.
+ *
+ * Usage:
+ *   npx tsx scripts/dead-letters.ts                    # List the retry queue
+ *   npx tsx scripts/dead-letters.ts replay <id> [...]  # Requeue specific earthquakes
+ *   npx tsx scripts/dead-letters.ts replay --all       # Requeue every dead-lettered item
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { createSyncStateStore } from '../lib/sync-state'
+import { requeue, type FailedPublish } from '../lib/publish-retries'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+function describe(entry: FailedPublish): string {
+  const next = entry.deadLettered
+    ? '💀 dead-lettered'
+    : `⏳ next attempt ${new Date(entry.nextAttemptAt!).toISOString()}`
+  return `${entry.earthquakeId} (${entry.item.type}) - ${entry.attempts} attempt(s), ${next}\n     Last error: ${entry.lastError}`
+}
+
+async function main() {
+  const [command = 'list', ...args] = process.argv.slice(2)
+  const store = await createSyncStateStore()
+
+  try {
+    const queue = await store.listFailed()
+
+    if (command === 'list') {
+      if (queue.length === 0) {
+        console.log('✅ Retry queue is empty')
+        return
+      }
+
+      const dead = queue.filter(entry => entry.deadLettered)
+      console.log(`\n📋 ${queue.length} failed publish(es), ${dead.length} dead-lettered:\n`)
+      queue
+        .sort((a, b) => a.firstFailedAt - b.firstFailedAt)
+        .forEach(entry => console.log(`  • ${describe(entry)}`))
+      return
+    }
+
+    if (command === 'replay') {
+      const replayAll = args.includes('--all')
+      const ids = new Set(args.filter(arg => arg !== '--all'))
+      const selected = queue.filter(entry => replayAll ? entry.deadLettered : ids.has(entry.earthquakeId))
+
+      const unknown = [...ids].filter(id => !queue.some(entry => entry.earthquakeId === id))
+      unknown.forEach(id => console.warn(`⚠️  ${id} is not in the retry queue`))
+
+      if (selected.length === 0) {
+        console.log('ℹ️  Nothing to replay')
+        return
+      }
+
+      await store.saveFailed(selected.map(requeue))
+      selected.forEach(entry => console.log(`🔁 Requeued ${entry.earthquakeId} (${entry.item.type})`))
+      console.log(`\n✅ ${selected.length} item(s) will be published on the next sync (npm run dev-sync)`)
+      return
+    }
+
+    console.error(`❌ Unknown command "${command}". Expected: list, replay`)
+    process.exitCode = 1
+  } finally {
+    await store.close()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Error:', error)
+  process.exit(1)
+})
@@ -8,6 +8,7 @@
  *   npx tsx scripts/dev-sync.ts          # Run once
  *   npx tsx scripts/dev-sync.ts --watch  # Run every 30 seconds
  *   npx tsx scripts/dev-sync.ts --force  # Force refresh (fetch last 24 hours)
+ *   npx tsx scripts/dev-sync.ts --dry-run  # Show what would be published, send nothing
  */
 
 import { config } from 'dotenv'
@@ -16,15 +17,19 @@ import { resolve } from 'path'
 config({ path: resolve(process.cwd(), '.env.local') })
 
 const FORCE_REFRESH = process.argv.includes('--force')
+const DRY_RUN = process.argv.includes('--dry-run')
 
 async function syncEarthquakes() {
   console.log('\n' + '='.repeat(60))
-  console.log(`🔄 Triggering earthquake sync${FORCE_REFRESH ? ' (FORCE REFRESH)' : ''}...`)
+  console.log(`🔄 Triggering earthquake sync${FORCE_REFRESH ? ' (FORCE REFRESH)' : ''}${DRY_RUN ? ' (DRY RUN)' : ''}...`)
   console.log('='.repeat(60))
   
   try {
     // Call the local API route
-    const url = `http://localhost:3000/api/cron/sync-earthquakes${FORCE_REFRESH ? '?force=true' : ''}`
+    const params = new URLSearchParams()
+    if (FORCE_REFRESH) params.set('force', 'true')
+    if (DRY_RUN) params.set('dryRun', 'true')
+    const url = `http://localhost:3000/api/cron/sync-earthquakes${params.size > 0 ? `?${params}` : ''}`
     const response = await fetch(url, {
       headers: {
         'Authorization': `Bearer ${process.env.CRON_SECRET}`
@@ -43,6 +48,21 @@ async function syncEarthquakes() {
         console.log(`   TX Hash: ${data.txHash}`)
       }
       
+      if (data.dryRun) {
+        console.log(`   Estimated gas: ${data.estimatedGas} (~${data.estimatedCost})`)
+        
+        if (data.plan.length > 0) {
+          console.log('\n🧪 Planned transactions (nothing was sent):')
+          data.plan.forEach((item: { id: string; type: string; hexId: string; events: string[]; topics: string[]; data: string; gas?: string; gasError?: string }) => {
+            console.log(`   • ${item.id} (${item.type}) → ${item.events.join(', ')}`)
+            console.log(`     Hex ID: ${item.hexId}`)
+            console.log(`     Topics: ${item.topics.join(', ')}`)
+            console.log(`     Payload: ${item.data.length / 2 - 1} bytes`)
+            console.log(`     Gas: ${item.gas ?? `estimate failed - ${item.gasError}`}`)
+          })
+        }
+      }
+      
       if (data.earthquakes && data.earthquakes.length > 0) {
         console.log('\n📋 New earthquakes:')
         data.earthquakes.forEach((eq: any) => {
@@ -1,7 +1,7 @@
 /**
  * Earthquake Schema Registration Script
  * 
- * This script registers the earthquake data schema and event schema on the Somnia blockchain.
+ * This script registers the earthquake data schema and event schemas on the Somnia blockchain.
  * Run this once before starting the application.
  * 
  * Usage:
@@ -15,24 +15,23 @@ import { resolve } from 'path'
 config({ path: resolve(process.cwd(), '.env.local') })
 
 import { getSDK, getPublicClient } from '../lib/sdk'
-import { EARTHQUAKE_SCHEMA } from '../lib/constants'
+import { EARTHQUAKE_EVENT_PARAMS, EARTHQUAKE_EVENTS } from '../lib/constants'
+import { getEarthquakeEventSignature } from '../lib/event-topics'
+import { DATA_SCHEMA_CODECS } from '../lib/schema-codecs'
 import { privateKeyToAccount } from 'viem/accounts'
 
 const ZERO_BYTES32 = '0x0000000000000000000000000000000000000000000000000000000000000000' as const
 
-async function main() {
-  console.log('🚀 Starting schema deployment...\n')
-
-  const sdk = getSDK()
-  
-  // Step 1: Compute Schema ID
-  console.log('📝 Computing earthquake schema ID...')
-  const schemaId = await sdk.streams.computeSchemaId(EARTHQUAKE_SCHEMA)
+/**
+ * Compute a data schema's ID and register it if needed
+ */
+async function registerDataSchema(sdk: ReturnType<typeof getSDK>, id: string, schema: string) {
+  console.log(`📝 Computing ${id} schema ID...`)
+  const schemaId = await sdk.streams.computeSchemaId(schema)
   console.log(`✅ Schema ID: ${schemaId}`)
-  console.log(`   Schema: ${EARTHQUAKE_SCHEMA}\n`)
+  console.log(`   Schema: ${schema}\n`)
   
-  // Step 2: Register earthquake data schema
-  console.log('📤 Registering earthquake data schema on-chain...')
+  console.log(`📤 Registering ${id} data schema on-chain...`)
   try {
     const isRegistered = await sdk.streams.isDataSchemaRegistered(schemaId!)
     
@@ -41,12 +40,12 @@ async function main() {
     } else {
       const schemaTx = await sdk.streams.registerDataSchemas([
         {
-          id: 'earthquake_event_v1',
-          schema: EARTHQUAKE_SCHEMA,
+          id,
+          schema,
           parentSchemaId: ZERO_BYTES32,
         },
       ])
-      console.log(`✅ Earthquake schema registered! TX: ${schemaTx}\n`)
+      console.log(`✅ ${id} schema registered! TX: ${schemaTx}\n`)
     }
   } catch (error) {
     const err = error as Error
@@ -58,16 +57,20 @@ async function main() {
     }
   }
   
-  // Step 3: Register Event Schema
-  console.log('📤 Registering EarthquakeDetected event schema...')
+  return schemaId
+}
+
+/**
+ * Register an event schema with the magnitude (× 10), region cell and magnitude band as indexed topics
+ */
+async function registerEventSchema(sdk: ReturnType<typeof getSDK>, eventId: string) {
+  console.log(`📤 Registering ${eventId} event schema...`)
   try {
     const eventTx = await sdk.streams.registerEventSchemas(
-      ['EarthquakeDetected'],
+      [eventId],
       [{
-        params: [
-          { name: 'magnitude', paramType: 'uint16', isIndexed: true }
-        ],
-        eventTopic: 'EarthquakeDetected(uint16 indexed magnitude)'
+        params: [...EARTHQUAKE_EVENT_PARAMS],
+        eventTopic: getEarthquakeEventSignature(eventId)
       }]
     )
     console.log(`✅ Event schema registered! TX: ${eventTx}`)
@@ -82,7 +85,7 @@ async function main() {
           timeout: 30_000 // 30 seconds
         })
         console.log('✅ Transaction confirmed!\n')
-      } catch (error) {
+      } catch {
         console.log('⏱️  Timeout waiting for confirmation (transaction likely still pending)')
         console.log('   You can check the transaction status on the explorer\n')
       }
@@ -92,11 +95,28 @@ async function main() {
     // EventSchemaAlreadyRegistered is expected and fine
     if (err.message?.includes('already registered') || 
         err.message?.includes('EventSchemaAlreadyRegistered')) {
-      console.log('⚠️  Event schema already registered!\n')
+      console.log(`⚠️  ${eventId} event schema already registered!\n`)
     } else {
       throw error
     }
   }
+}
+
+async function main() {
+  console.log('🚀 Starting schema deployment...\n')
+
+  const sdk = getSDK()
+  
+  // Steps 1-2: Compute schema IDs and register every data schema version in the codec registry
+  const schemaIds: Array<{ env: string; schemaId: string | null }> = []
+  for (const codec of DATA_SCHEMA_CODECS) {
+    schemaIds.push({ env: codec.schemaIdEnv, schemaId: await registerDataSchema(sdk, codec.name, codec.schema) })
+  }
+  
+  // Step 3: Register Event Schemas (one call each, so an already-registered event doesn't block the others)
+  for (const eventId of Object.values(EARTHQUAKE_EVENTS)) {
+    await registerEventSchema(sdk, eventId)
+  }
   
   // Step 4: Get publisher address
   const privateKey = process.env.ORACLE_PRIVATE_KEY?.trim()
@@ -111,7 +131,7 @@ async function main() {
   // Output configuration
   console.log('✅ Deployment complete!\n')
   console.log('📋 Add these to your .env.local file:\n')
-  console.log(`NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID=${schemaId}`)
+  schemaIds.forEach(({ env, schemaId }) => console.log(`${env}=${schemaId}`))
   console.log(`NEXT_PUBLIC_PUBLISHER_ADDRESS=${publisherAddress}\n`)
 }
 
@@ -0,0 +1,212 @@
+/**
+ * Tail live earthquakes from the chain
+ *
+ * Prints the most recent on-chain earthquakes, then follows the live
+ * subscription (lib/earthquake-stream-client.ts) and prints every new quake,
+ * revision and retraction as it arrives. Filters work like the query API's
+ * (lib/earthquake-query.ts); magnitude and --bbox also narrow the subscription.
+ * Only earthquakes go to stdout - progress and connection changes go to stderr,
+ * so the output can be piped into other tools.
+ *
+ * Usage:
+ *   npm run tail                                          # Last 20 quakes, then follow
+ *   npm run tail -- --min-magnitude 4.5 --json | jq .     # JSON lines
+ *   npm run tail -- --bbox -125,32,-114,42 --since 24h --no-follow
+ *   npm run tail -- --publisher 0xabc...,0xdef...           # Only these oracles, in this order
+ *
+ * Options:
+ *   --min-magnitude <m>, --max-magnitude <m>   Magnitude range, inclusive
+ *   --min-depth <km>, --max-depth <km>         Depth range, inclusive
+ *   --bbox <west,south,east,north>             Region in degrees (west > east crosses the antimeridian)
+ *   --latitude <lat> --longitude <lon> --radius-km <km>   Within a radius of a point
+ *   --since <time>       Origin time from (ISO 8601, Unix ms, or ago: 30m, 6h, 2d)
+ *   --until <time>       Origin time before (same forms) - a window already over is not followed
+ *   --publisher <0xabc,0xdef>  Oracles to read, highest priority first (default NEXT_PUBLIC_PUBLISHER_ADDRESSES)
+ *   --include-retracted  Also print quakes the source deleted
+ *   --limit <n>          History quakes to print (default 20, at most 1000)
+ *   --json               One JSON object per line, with an `event` field
+ *   --no-follow          Print the history and exit
+ *   --verbose            Show the stream client's logs on stderr
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { isAddress } from 'viem'
+
+// Load environment variables FIRST (the codec registry reads schema IDs at import), without dotenv's banner on stdout
+config({ path: resolve(process.cwd(), '.env.local'), quiet: true })
+
+import { PUBLISHER_ADDRESSES } from '../lib/constants'
+import { ACTIVE_EARTHQUAKE_CODECS } from '../lib/schema-codecs'
+import { EarthquakeQueryError, matchesEarthquakeQuery, parseEarthquakeQuery, queryEarthquakes, type EarthquakeQuery } from '../lib/earthquake-query'
+import { EarthquakeStreamClient } from '../lib/earthquake-stream-client'
+import type { Earthquake } from '../types/earthquake'
+
+type TailEvent = 'history' | 'new' | 'updated' | 'retracted'
+
+// Command-line options and the query parameters they stand for
+const QUERY_OPTIONS: Record<string, string> = {
+  'min-magnitude': 'minMagnitude',
+  'max-magnitude': 'maxMagnitude',
+  'min-depth': 'minDepth',
+  'max-depth': 'maxDepth',
+  'bbox': 'bbox',
+  'latitude': 'latitude',
+  'longitude': 'longitude',
+  'radius-km': 'radiusKm',
+  'since': 'startTime',
+  'until': 'endTime',
+  'limit': 'limit'
+}
+
+const DEFAULT_LIMIT = 20
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+/**
+ * "6h" → Unix ms six hours ago; anything else is left to the query parser
+ */
+function resolveTime(value: string): string {
+  const match = /^(\d+(?:\.\d+)?)([mhd])$/.exec(value)
+  return match ? String(Math.round(Date.now() - Number(match[1]) * DURATION_UNITS_MS[match[2]])) : value
+}
+
+/**
+ * Parse the filter options with the query API's parser (throws EarthquakeQueryError
+ * naming the command-line options)
+ */
+function parseTailQuery(): EarthquakeQuery {
+  const params = new URLSearchParams({ limit: String(DEFAULT_LIMIT) })
+  for (const [option, param] of Object.entries(QUERY_OPTIONS)) {
+    const value = getArg(option)
+    if (value === undefined) continue
+    params.set(param, option === 'since' || option === 'until' ? resolveTime(value) : value)
+  }
+  if (process.argv.includes('--include-retracted')) params.set('includeRetracted', 'true')
+
+  try {
+    return parseEarthquakeQuery(params)
+  } catch (error) {
+    if (!(error instanceof EarthquakeQueryError)) throw error
+    throw new EarthquakeQueryError(error.problems.map(problem =>
+      Object.entries(QUERY_OPTIONS).reduce((text, [option, param]) => text.replace(new RegExp(`\\b${param}\\b`, 'g'), `--${option}`), problem)
+    ))
+  }
+}
+
+/**
+ * Oracles to read: --publisher, else the configured ones
+ */
+function parsePublishers(): `0x${string}`[] {
+  const value = getArg('publisher')
+  if (value === undefined) return [...PUBLISHER_ADDRESSES]
+
+  const publishers = value.split(',').map(address => address.trim()).filter(Boolean)
+  const invalid = publishers.filter(address => !isAddress(address))
+  if (publishers.length === 0 || invalid.length > 0) {
+    throw new EarthquakeQueryError([`--publisher must be a comma-separated list of addresses${invalid.length > 0 ? ` (got ${invalid.join(', ')})` : ''}`])
+  }
+  return publishers as `0x${string}`[]
+}
+
+const TABLE_HEADER = `${'EVENT'.padEnd(9)} ${'TIME (UTC)'.padEnd(19)} ${'MAG'.padStart(5)} ${'DEPTH'.padStart(8)} ${'LAT'.padStart(8)} ${'LON'.padStart(9)}  LOCATION`
+
+function formatRow(event: TailEvent, quake: Earthquake): string {
+  const flags = [quake.retracted && 'retracted', quake.disagreements && 'disputed'].filter(Boolean)
+  return [
+    (event === 'history' ? '' : event).padEnd(9),
+    new Date(quake.timestamp).toISOString().slice(0, 19).replace('T', ' '),
+    `M${quake.magnitude.toFixed(1)}`.padStart(5),
+    `${quake.depth.toFixed(1)} km`.padStart(8),
+    quake.latitude.toFixed(3).padStart(8),
+    quake.longitude.toFixed(3).padStart(9),
+    ` ${quake.location}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`
+  ].join(' ')
+}
+
+async function main() {
+  const query = parseTailQuery()
+  const publishers = parsePublishers()
+  const json = process.argv.includes('--json')
+  const verbose = process.argv.includes('--verbose')
+  const follow = !process.argv.includes('--no-follow') && (query.endTime === undefined || query.endTime > Date.now())
+
+  if (publishers.length === 0 || ACTIVE_EARTHQUAKE_CODECS.length === 0) {
+    console.error('❌ NEXT_PUBLIC_PUBLISHER_ADDRESS (or --publisher) and NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID must be set in .env.local')
+    process.exit(1)
+  }
+
+  // stdout carries earthquakes only
+  console.log = verbose ? console.error : () => {}
+
+  const print = (event: TailEvent, quake: Earthquake) => {
+    process.stdout.write(`${json ? JSON.stringify({ event, ...quake }) : formatRow(event, quake)}\n`)
+  }
+
+  const client = new EarthquakeStreamClient({
+    filter: { minMagnitude: query.minMagnitude, maxMagnitude: query.maxMagnitude, region: query.bbox },
+    publishers
+  })
+
+  console.error(`📥 Loading earthquake history from ${publishers.length} oracle(s)...`)
+  let history: Earthquake[]
+  if (follow) {
+    await client.start()
+    history = client.earthquakes
+  } else {
+    history = await client.loadHistory()
+  }
+
+  // Newest `limit` matches, printed oldest first so the latest ends up at the bottom
+  const recent = queryEarthquakes(history, { ...query, orderBy: 'time', offset: 0 })
+  if (!json) process.stdout.write(`${TABLE_HEADER}\n`)
+  recent.earthquakes.reverse().forEach(quake => print('history', quake))
+  console.error(`📋 ${recent.earthquakes.length} of ${recent.total} matching earthquake(s)`)
+
+  if (!follow) return
+
+  // Quakes already known - anything else in a new list arrived live or was caught up after a reconnect
+  const seen = new Set(history.map(quake => quake.earthquakeId))
+
+  client.on('list', quakes => {
+    quakes
+      .filter(quake => !seen.has(quake.earthquakeId))
+      .reverse()
+      .forEach(quake => {
+        seen.add(quake.earthquakeId)
+        if (matchesEarthquakeQuery(quake, query)) print('new', quake)
+      })
+  })
+  client.on('updated', quake => {
+    if (matchesEarthquakeQuery(quake, { ...query, includeRetracted: true })) print('updated', quake)
+  })
+  client.on('retracted', quake => {
+    if (matchesEarthquakeQuery(quake, { ...query, includeRetracted: true })) print('retracted', quake)
+  })
+  let lastStatus = client.connection.status
+  client.on('connection', ({ status, retryCount }) => {
+    if (status === lastStatus && status !== 'reconnecting') return
+    lastStatus = status
+    console.error(status === 'reconnecting' ? `🔄 Reconnecting (attempt ${retryCount})...` : `🔌 ${status}`)
+  })
+
+  console.error(`👀 Following live earthquakes (Ctrl+C to stop)...`)
+  process.on('SIGINT', () => {
+    client.stop()
+    process.exit(0)
+  })
+}
+
+main().catch(error => {
+  console.error('❌ Error:', error instanceof EarthquakeQueryError ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,198 @@
+/**
+ * Property-based round-trip tests for the earthquake schema codecs
+ *
+ * Generates random earthquakes from a seeded PRNG and checks, for every schema
+ * version, that encoding then decoding is exact at the stated precision, that
+ * hex and SDK-decoded input agree, and that invalid values throw typed errors.
+ * Runs offline - no RPC or env needed.
+ *
+ * Usage:
+ *   npm run test:encoding [-- --runs 2000 --seed 42]
+ */
+
+import { SchemaEncoder } from '@somnia-chain/streams'
+import { EARTHQUAKE_CODECS, SchemaEncodingError, type SchemaCodec, type SchemaEncodingErrorCode } from '../lib/schema-codecs'
+import type { Earthquake, PagerAlert, ReviewStatus } from '../types/earthquake'
+
+function getArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback
+}
+
+const RUNS = getArg('runs', 1000)
+const SEED = getArg('seed', Date.now() % 2 ** 31)
+
+// mulberry32 - small, fast and reproducible from the printed seed
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+  return {
+    next,
+    int,
+    // A value with at most `decimals` places, built from its integer form like a parsed decimal would be
+    fixed: (min: number, max: number, decimals: number) => int(min * 10 ** decimals, max * 10 ** decimals) / 10 ** decimals,
+    float: (min: number, max: number) => min + next() * (max - min),
+    pick: <T>(values: readonly T[]) => values[int(0, values.length - 1)],
+    maybe: <T>(value: () => T) => next() < 0.5 ? value() : undefined
+  }
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const ALERTS: PagerAlert[] = ['green', 'yellow', 'orange', 'red']
+const STATUSES: ReviewStatus[] = ['automatic', 'reviewed']
+
+/**
+ * Random earthquake whose values are all at on-chain precision
+ */
+function randomEarthquake(random: Random, version: number): Earthquake {
+  const quake: Earthquake = {
+    earthquakeId: `us${random.int(0, 1e9).toString(36)}`,
+    location: random.pick(['', '10 km N of Ridgecrest, CA', 'Südliches Island', 'Mar de Bering 🌊']),
+    magnitude: random.fixed(0, 9.9, 1),
+    // Only v3 has a signed depth
+    depth: random.fixed(version >= 3 ? -10 : 0, 700, 3),
+    latitude: random.fixed(-90, 90, 6),
+    longitude: random.fixed(-180, 180, 6),
+    timestamp: random.int(0, 4102444800000),
+    url: 'https://earthquake.usgs.gov/earthquakes/eventpage/example'
+  }
+  if (version === 1) return quake
+
+  const magType = random.maybe(() => random.pick(['ml', 'md', 'mb', 'mww']))
+  const status = random.maybe(() => random.pick(STATUSES))
+  const alert = random.maybe(() => random.pick(ALERTS))
+  const felt = random.maybe(() => random.int(1, 100000))
+  const cdi = random.maybe(() => random.fixed(0.1, 12, 1))
+  const mmi = random.maybe(() => random.fixed(0.1, 12, 1))
+  const updated = random.maybe(() => random.int(1, 4102444800000))
+
+  return {
+    ...quake,
+    ...(magType && { magType }),
+    ...(status && { status }),
+    tsunami: random.next() < 0.5,
+    ...(alert && { alert }),
+    ...(felt !== undefined && { felt }),
+    ...(cdi !== undefined && { cdi }),
+    ...(mmi !== undefined && { mmi }),
+    sig: random.int(0, 3000),
+    ...(updated !== undefined && { updated })
+  }
+}
+
+const failures: string[] = []
+let checks = 0
+
+function check(name: string, condition: boolean, detail: () => string) {
+  checks++
+  if (!condition && failures.length < 20) failures.push(`${name}: ${detail()}`)
+}
+
+function sameEarthquake(a: Earthquake, b: Earthquake): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Earthquake>
+  return [...keys].every(key => Object.is(a[key], b[key]))
+}
+
+function expectError(codec: SchemaCodec<Earthquake>, quake: Earthquake, field: string, code: SchemaEncodingErrorCode, name: string) {
+  try {
+    codec.encode(quake)
+    check(name, false, () => `${codec.name} encoded ${field}=${String(quake[field as keyof Earthquake])} without an error`)
+  } catch (error) {
+    check(name, error instanceof SchemaEncodingError && error.field === field && error.code === code,
+      () => `${codec.name}: expected ${code} on ${field}, got ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+function runProperties(codec: SchemaCodec<Earthquake>, random: Random) {
+  const sdkEncoder = new SchemaEncoder(codec.schema)
+
+  for (let run = 0; run < RUNS; run++) {
+    // Values at stated precision round-trip exactly, through hex and through the SDK's decoded shape
+    const quake = randomEarthquake(random, codec.version)
+    const hex = codec.encode(quake)
+    const fromHex = codec.decode(hex)
+    const fromSdk = codec.decode(sdkEncoder.decodeData(hex))
+    check('exact round-trip', sameEarthquake(quake, fromHex),
+      () => `${codec.name}\n  in:  ${JSON.stringify(quake)}\n  out: ${JSON.stringify(fromHex)}`)
+    check('hex and SDK decoding agree', sameEarthquake(fromHex, fromSdk),
+      () => `${codec.name}\n  hex: ${JSON.stringify(fromHex)}\n  sdk: ${JSON.stringify(fromSdk)}`)
+
+    // Arbitrary floats land within half a unit of the last kept place, with no directional bias
+    const raw = {
+      ...quake,
+      magnitude: random.float(0, 9.9),
+      depth: random.float(codec.version >= 3 ? -10 : 0, 700),
+      latitude: random.float(-90, 90),
+      longitude: random.float(-180, 180)
+    }
+    const decoded = codec.decode(codec.encode(raw))
+    const tolerances = { magnitude: 0.05, depth: 0.0005, latitude: 0.0000005, longitude: 0.0000005 }
+    for (const [field, tolerance] of Object.entries(tolerances) as Array<[keyof typeof tolerances, number]>) {
+      check(`${field} within half a unit`, Math.abs(decoded[field] - raw[field]) <= tolerance * (1 + 1e-9),
+        () => `${codec.name}: ${raw[field]} → ${decoded[field]}`)
+    }
+
+    // Re-encoding a decoded record is stable
+    check('idempotent', codec.encode(decoded) === codec.encode(raw), () => `${codec.name}: ${JSON.stringify(raw)}`)
+  }
+
+  const base = randomEarthquake(random, codec.version)
+
+  // Classic float traps
+  for (const magnitude of [5.3, 4.6, 2.3, 0.7, 6.9]) {
+    const { magnitude: decoded } = codec.decode(codec.encode({ ...base, magnitude }))
+    check('magnitude float trap', decoded === magnitude, () => `${codec.name}: ${magnitude} → ${decoded}`)
+  }
+  for (const longitude of [-117.6534, -0.000001, -179.999999, 0.1 + 0.2]) {
+    const { longitude: decoded } = codec.decode(codec.encode({ ...base, longitude }))
+    check('negative coordinates are not biased', decoded === Number(longitude.toFixed(6)), () => `${codec.name}: ${longitude} → ${decoded}`)
+  }
+
+  // Typed errors instead of garbage
+  expectError(codec, { ...base, magnitude: NaN }, 'magnitude', 'not-finite', 'NaN rejected')
+  expectError(codec, { ...base, latitude: Infinity }, 'latitude', 'not-finite', 'Infinity rejected')
+  expectError(codec, { ...base, latitude: 90.5 }, 'latitude', 'out-of-range', 'latitude limit')
+  expectError(codec, { ...base, longitude: -181 }, 'longitude', 'out-of-range', 'longitude limit')
+  expectError(codec, { ...base, magnitude: -1.2 }, 'magnitude', 'out-of-range', 'uint16 magnitude sign')
+  expectError(codec, { ...base, magnitude: 6553.6 }, 'magnitude', 'out-of-range', 'uint16 magnitude overflow')
+  expectError(codec, { ...base, timestamp: -1 }, 'timestamp', 'out-of-range', 'uint64 timestamp sign')
+  expectError(codec, { ...base, earthquakeId: undefined as unknown as string }, 'earthquakeId', 'invalid-type', 'missing string')
+
+  if (codec.version >= 3) {
+    const { depth } = codec.decode(codec.encode({ ...base, depth: -1.25 }))
+    check('negative depth', depth === -1.25, () => `${codec.name}: -1.25 → ${depth}`)
+    expectError(codec, { ...base, depth: 2147484 }, 'depth', 'out-of-range', 'int32 depth overflow')
+  } else {
+    expectError(codec, { ...base, depth: -1.25 }, 'depth', 'out-of-range', 'uint32 depth sign')
+  }
+
+  if (codec.version >= 2) {
+    expectError(codec, { ...base, sig: 70000 }, 'sig', 'out-of-range', 'uint16 sig overflow')
+    expectError(codec, { ...base, felt: NaN }, 'felt', 'not-finite', 'NaN felt rejected')
+  }
+}
+
+console.log(`\n🧪 Earthquake codec round-trip properties (${RUNS} runs per codec, seed ${SEED})\n`)
+
+const random = createRandom(SEED)
+for (const codec of EARTHQUAKE_CODECS) {
+  const before = failures.length
+  runProperties(codec, random)
+  console.log(`  ${failures.length === before ? '✅' : '❌'} ${codec.name}`)
+}
+
+if (failures.length > 0) {
+  console.error(`\n❌ ${failures.length} failing check(s) (reproduce with --seed ${SEED}):\n`)
+  failures.forEach(failure => console.error(`  • ${failure}`))
+  process.exit(1)
+}
+
+console.log(`\n✅ ${checks} checks passed\n`)
@@ -0,0 +1,183 @@
+/**
+ * Gap reads of the live stream client
+ *
+ * Drives EarthquakeStreamClient (lib/earthquake-stream-client.ts) with fake
+ * SDKs and counts the range reads it makes between events. Under a topic
+ * filter, records outside the filter publish no event the client sees, so a
+ * jump in the record count must not trigger a read on its own - only an event
+ * whose own record was not the one bundled with it does. Without a filter,
+ * every jump is read. Runs offline - no RPC or env needed.
+ *
+ * Usage:
+ *   npm run test:gap-fill
+ */
+
+import { encodeFunctionResult, parseAbi, type Hex } from 'viem'
+import type { Earthquake } from '../types/earthquake'
+
+// Set before the codec registry reads its schema IDs at import
+const SCHEMA_ID = `0x${'11'.repeat(32)}` as Hex
+const PUBLISHER = `0x${'22'.repeat(20)}` as `0x${string}`
+process.env.NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID = SCHEMA_ID
+process.env.NEXT_PUBLIC_PUBLISHER_ADDRESS = PUBLISHER
+for (const name of ['NEXT_PUBLIC_PUBLISHER_ADDRESSES', 'NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V2_ID', 'NEXT_PUBLIC_EARTHQUAKE_SCHEMA_V3_ID', 'NEXT_PUBLIC_RETRACTION_SCHEMA_ID']) {
+  delete process.env[name]
+}
+
+const PROTOCOL_ABI = parseAbi([
+  'function getLastPublishedDataForSchema(bytes32 schemaId, address publisher) view returns (bytes)',
+  'function totalPublisherDataForSchema(bytes32 schemaId, address publisher) view returns (uint256)'
+])
+
+type EventHandler = (data: unknown) => void
+
+/**
+ * One publisher's records under the schema, and the subscriptions and range reads made against them
+ */
+function createFakeChain() {
+  const records: Hex[] = []
+  const handlers = new Map<string, EventHandler>()
+  const rangeReads: Array<[start: number, end: number]> = []
+
+  const streams = {
+    getSomniaDataStreamsProtocolInfo: async () => ({ address: `0x${'33'.repeat(20)}`, abi: PROTOCOL_ABI }),
+    subscribe: async ({ somniaStreamsEventId, onData }: { somniaStreamsEventId: string; onData: EventHandler }) => {
+      handlers.set(somniaStreamsEventId, onData)
+      return { unsubscribe: () => handlers.delete(somniaStreamsEventId) }
+    },
+    totalPublisherDataForSchema: async () => BigInt(records.length),
+    getBetweenRange: async (_schemaId: Hex, _publisher: Hex, start: bigint, end: bigint) => {
+      rangeReads.push([Number(start), Number(end)])
+      return records.slice(Number(start), Number(end))
+    },
+    getAtIndex: async (_schemaId: Hex, _publisher: Hex, index: bigint) => [records[Number(index)]]
+  }
+
+  return {
+    records,
+    rangeReads,
+    sdk: { streams } as unknown as import('@somnia-chain/streams').SDK,
+    /** Deliver an event with the latest record and the record count bundled, as the node does */
+    emit(eventId: string) {
+      handlers.get(eventId)?.({
+        result: {
+          simulationResults: [
+            encodeFunctionResult({ abi: PROTOCOL_ABI, functionName: 'getLastPublishedDataForSchema', result: records[records.length - 1] }),
+            encodeFunctionResult({ abi: PROTOCOL_ABI, functionName: 'totalPublisherDataForSchema', result: BigInt(records.length) })
+          ]
+        }
+      })
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the client')
+    await sleep(5)
+  }
+}
+
+const failures: string[] = []
+let checks = 0
+
+function check(name: string, condition: boolean, detail: () => string) {
+  checks++
+  if (!condition) failures.push(`${name}: ${detail()}`)
+}
+
+async function main() {
+  const { EarthquakeStreamClient } = await import('../lib/earthquake-stream-client')
+  const { PUBLISH_EARTHQUAKE_CODEC } = await import('../lib/schema-codecs')
+  const { EARTHQUAKE_EVENTS } = await import('../lib/constants')
+
+  let sequence = 0
+  const quake = (magnitude: number): Earthquake => ({
+    earthquakeId: `test${sequence++}`,
+    location: 'Test',
+    magnitude,
+    depth: 10,
+    latitude: 35,
+    longitude: -118,
+    timestamp: 1_700_000_000_000 + sequence * 1000,
+    url: ''
+  })
+
+  // Client logs would drown the results
+  const log = console.log
+  console.log = () => {}
+
+  const start = async (filter: { minMagnitude?: number }) => {
+    const chain = createFakeChain()
+    const client = new EarthquakeStreamClient({
+      filter,
+      publishers: [PUBLISHER],
+      createFetchSDK: () => chain.sdk,
+      createSubscriptionSDK: () => chain.sdk
+    })
+    await client.start()
+    await waitFor(() => client.connection.status === 'live')
+    return { chain, client }
+  }
+
+  try {
+    // Topic-filtered: a publish outside the filter is only seen as a jump in the count
+    {
+      const { chain, client } = await start({ minMagnitude: 5 })
+      chain.records.push(PUBLISH_EARTHQUAKE_CODEC.encode(quake(3)))
+      const matching = quake(6)
+      chain.records.push(PUBLISH_EARTHQUAKE_CODEC.encode(matching))
+      chain.emit(EARTHQUAKE_EVENTS.DETECTED)
+      await sleep(20)
+
+      check('filtered: non-matching publish', chain.rangeReads.length === 0, () => `expected no range read, got ${JSON.stringify(chain.rangeReads)}`)
+      check('filtered: bundled quake applied', client.earthquakes.some(q => q.earthquakeId === matching.earthquakeId), () => 'matching quake missing from the list')
+
+      // Two matching publishes in one block: both events bundle the second record
+      const first = quake(5.5)
+      const second = quake(7)
+      chain.records.push(PUBLISH_EARTHQUAKE_CODEC.encode(first), PUBLISH_EARTHQUAKE_CODEC.encode(second))
+      chain.emit(EARTHQUAKE_EVENTS.DETECTED)
+      chain.emit(EARTHQUAKE_EVENTS.DETECTED)
+      await waitFor(() => chain.rangeReads.length > 0).catch(() => {})
+      await sleep(20)
+
+      check('filtered: missed matching record', JSON.stringify(chain.rangeReads) === JSON.stringify([[0, 3]]), () => `expected one read of 0-3, got ${JSON.stringify(chain.rangeReads)}`)
+      check('filtered: missed quake applied', client.earthquakes.some(q => q.earthquakeId === first.earthquakeId), () => 'quake of the second event missing from the list')
+      check('filtered: non-matching quake dropped', client.earthquakes.every(q => q.magnitude >= 5), () => 'a quake outside the filter was listed')
+      client.stop()
+    }
+
+    // Unfiltered: every publish has an event, so a jump means one was missed
+    {
+      const { chain, client } = await start({})
+      const missed = quake(3)
+      chain.records.push(PUBLISH_EARTHQUAKE_CODEC.encode(missed), PUBLISH_EARTHQUAKE_CODEC.encode(quake(4)))
+      chain.emit(EARTHQUAKE_EVENTS.DETECTED)
+      await waitFor(() => chain.rangeReads.length > 0).catch(() => {})
+      await sleep(20)
+
+      check('unfiltered: gap read', JSON.stringify(chain.rangeReads) === JSON.stringify([[0, 1]]), () => `expected one read of 0-1, got ${JSON.stringify(chain.rangeReads)}`)
+      check('unfiltered: missed quake applied', client.earthquakes.some(q => q.earthquakeId === missed.earthquakeId), () => 'missed quake missing from the list')
+      client.stop()
+    }
+  } finally {
+    console.log = log
+  }
+
+  console.log('\n🧪 Stream client gap reads\n')
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} failing check(s):\n`)
+    failures.forEach(failure => console.error(`  • ${failure}`))
+    process.exit(1)
+  }
+  console.log(`✅ ${checks} checks passed\n`)
+}
+
+main().catch(error => {
+  console.error('❌ Error:', error)
+  process.exit(1)
+})
@@ -0,0 +1,179 @@
+/**
+ * Verify published earthquakes against their source records
+ *
+ * Reads each earthquake and its provenance record from chain, loads the raw
+ * source record it was published from (the archive in the sync state store,
+ * or the source itself with --refetch), checks the record against the on-chain
+ * hash and parses it again to compare every published field.
+ *
+ * Usage:
+ *   npm run verify -- <earthquakeId> [...]        # Specific earthquakes
+ *   npm run verify -- --since 2025-01-01          # Everything in the sync state since a date
+ *
+ * Options:
+ *   --refetch            Compare with the source's current record instead of the archive
+ *                        (values only - the hash covers the feed's form of the record, and
+ *                        the source returns a single event in a different one)
+ *   --publisher <addr>   Oracle to verify (default NEXT_PUBLIC_PUBLISHER_ADDRESS)
+ *
+ * Exits with code 1 when any earthquake fails verification.
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+// Load environment variables FIRST (the codec registry reads schema IDs at import)
+config({ path: resolve(process.cwd(), '.env.local') })
+
+import { SDK } from '@somnia-chain/streams'
+import { toHex } from 'viem'
+import { getPublicClient } from '../lib/sdk'
+import { PUBLISHER_ADDRESS } from '../lib/constants'
+import { ACTIVE_EARTHQUAKE_CODECS, PROVENANCE_CODEC, type EncodedRecord, type SchemaCodec } from '../lib/schema-codecs'
+import { createSourcesFromEnv } from '../lib/sources'
+import { checkProvenance, findRecordSource, hashSourceRecord } from '../lib/provenance'
+import { createSyncStateStore } from '../lib/sync-state'
+import type { Earthquake, EarthquakeProvenance, SourceRecord } from '../types/earthquake'
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function format(value: unknown): string {
+  return value === undefined ? '(absent)' : JSON.stringify(value)
+}
+
+async function main() {
+  const refetch = process.argv.includes('--refetch')
+  const since = getArg('since')
+  const publisher = (getArg('publisher') ?? PUBLISHER_ADDRESS) as `0x${string}`
+  const ids = process.argv.slice(2).filter((arg, i, args) => !arg.startsWith('--') && !['--since', '--publisher'].includes(args[i - 1]))
+
+  if (!publisher || ACTIVE_EARTHQUAKE_CODECS.length === 0) {
+    console.error('❌ NEXT_PUBLIC_PUBLISHER_ADDRESS and NEXT_PUBLIC_EARTHQUAKE_SCHEMA_ID must be set in .env.local')
+    process.exit(1)
+  }
+  if (!PROVENANCE_CODEC.schemaId) {
+    console.warn('⚠️  NEXT_PUBLIC_PROVENANCE_SCHEMA_ID is not set - values are checked, but there is no on-chain hash to check\n')
+  }
+
+  const store = await createSyncStateStore()
+  const reader = new SDK({ public: getPublicClient() })
+  const sources = createSourcesFromEnv()
+
+  try {
+    if (since) {
+      const sinceTime = Date.parse(since)
+      if (!Number.isFinite(sinceTime)) throw new Error(`Invalid --since date "${since}"`)
+      const processed = await store.listProcessed(sinceTime, Date.now())
+      ids.push(...processed.filter(record => record.published && !record.retractedAt).map(record => record.earthquakeId))
+    }
+
+    if (ids.length === 0) {
+      console.error('❌ Nothing to verify - pass earthquake IDs or --since <date>')
+      process.exitCode = 1
+      return
+    }
+
+    console.log(`\n🔎 Verifying ${ids.length} earthquake(s) published by ${publisher} against ${refetch ? 'their sources' : 'archived source records'}\n`)
+    if (refetch) console.log('ℹ️  Source hashes are not compared: the source returns each event in a different form than the feed record that was hashed\n')
+    let failed = 0
+
+    for (const earthquakeId of ids) {
+      const dataId = toHex(earthquakeId, { size: 32 })
+      const problems: string[] = []
+
+      // The newest schema version holding the ID is the record as last published
+      let onChain: { quake: Earthquake; codec: SchemaCodec<Earthquake> } | undefined
+      for (const codec of [...ACTIVE_EARTHQUAKE_CODECS].reverse()) {
+        const data = await reader.streams.getByKey(codec.schemaId!, publisher, dataId).catch(() => null)
+        if (Array.isArray(data) && data.length > 0 && data[0] !== '0x') {
+          onChain = { quake: codec.decode(data[0] as EncodedRecord), codec }
+          break
+        }
+      }
+
+      if (!onChain) {
+        console.log(`❌ ${earthquakeId}: not found on-chain`)
+        failed++
+        continue
+      }
+
+      let provenance: EarthquakeProvenance | undefined
+      if (PROVENANCE_CODEC.schemaId) {
+        const data = await reader.streams.getByKey(PROVENANCE_CODEC.schemaId, publisher, dataId).catch(() => null)
+        if (Array.isArray(data) && data.length > 0 && data[0] !== '0x') {
+          provenance = PROVENANCE_CODEC.decode(data[0] as EncodedRecord)
+        } else {
+          problems.push('no provenance record on-chain')
+        }
+      }
+
+      // Archived by the on-chain hash, else by the hash the sync state remembers
+      const hash = provenance?.sourceHash ?? (await store.getProcessed([earthquakeId])).get(earthquakeId)?.sourceHash
+      let record: SourceRecord | undefined
+      let origin = 'archive'
+
+      if (!refetch && hash) {
+        record = await store.getSourceRecord(hash) ?? undefined
+      }
+      if (!record) {
+        origin = 'source'
+        const source = provenance ? findRecordSource(provenance, sources) : sources[0]
+        record = await source?.fetchRecord?.(earthquakeId)
+      }
+
+      if (!record) {
+        console.log(`❌ ${earthquakeId}: no source record - ${refetch ? '' : 'not archived, and '}${provenance?.source ?? sources[0].name} cannot return it`)
+        failed++
+        continue
+      }
+
+      const source = findRecordSource(record, sources)
+      if (!source) {
+        console.log(`❌ ${earthquakeId}: source "${record.source}" is not in EARTHQUAKE_SOURCES, so its record cannot be parsed`)
+        failed++
+        continue
+      }
+
+      try {
+        if (origin === 'archive' && hashSourceRecord(record).toLowerCase() !== record.hash.toLowerCase()) {
+          problems.push('archived record does not match its own hash (archive corrupted)')
+        }
+
+        // A fetched record is the source's single-event form, never the feed form that was hashed
+        const check = checkProvenance(onChain.quake, onChain.codec, record, source, origin === 'archive' ? provenance : undefined)
+        if (check.hashMatches === false) {
+          problems.push(`source hash ${provenance!.sourceHash} does not match the archived record (${hashSourceRecord(record)})`)
+        }
+        check.mismatches.forEach(({ field, onChain: published, source: reported }) => {
+          problems.push(`${field}: on-chain ${format(published)}, source ${format(reported)}`)
+        })
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : String(error))
+      }
+
+      if (problems.length === 0) {
+        console.log(origin === 'archive'
+          ? `✅ ${earthquakeId}: ${provenance ? 'hash and ' : ''}values match the archived ${record.source} record`
+          : `✅ ${earthquakeId}: values match the current ${record.source} record${provenance ? ' (hash not compared - re-fetched records are not in the form that was hashed)' : ''}`)
+        continue
+      }
+
+      failed++
+      console.log(`❌ ${earthquakeId} (${origin === 'archive' ? 'archived' : 'current'} ${record.source} record, fetched ${new Date(record.fetchedAt).toISOString()}):`)
+      problems.forEach(problem => console.log(`     • ${problem}`))
+    }
+
+    console.log(`\n${failed === 0 ? '✅' : '❌'} ${ids.length - failed}/${ids.length} verified`)
+    if (failed > 0) process.exitCode = 1
+  } finally {
+    await store.close()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Error:', error)
+  process.exit(1)
+})
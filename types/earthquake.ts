@@ -1,3 +1,7 @@
+export type PagerAlert = 'green' | 'yellow' | 'orange' | 'red'
+
+export type ReviewStatus = 'automatic' | 'reviewed'
+
 export interface Earthquake {
   earthquakeId: string
   location: string
@@ -7,27 +11,95 @@ export interface Earthquake {
   longitude: number       // Real longitude (-117.6534)
   timestamp: number       // Unix timestamp in ms
   url: string
+  sourceIds?: string[]    // IDs of the same event in every source that reported it (off-chain metadata)
+  updated?: number        // When the source last revised this event, Unix timestamp in ms (on-chain from v2)
+  retracted?: boolean     // Deleted by the source (false detection, quarry blast, ...)
+  sourceRecord?: SourceRecord // Raw provider record this was parsed from (oracle side only, see lib/provenance.ts)
+  // Schema v2 - absent on v1 records and when the source doesn't report them
+  magType?: string        // Magnitude type (ml, mb, mww, ...)
+  status?: ReviewStatus   // Whether a seismologist has reviewed the solution
+  tsunami?: boolean       // Oceanic region event large enough for a tsunami warning center to assess
+  alert?: PagerAlert      // USGS PAGER estimated impact level
+  felt?: number           // "Did You Feel It?" report count
+  cdi?: number            // Max community reported intensity (MMI scale, 1 decimal)
+  mmi?: number            // Max ShakeMap instrumental intensity (MMI scale, 1 decimal)
+  sig?: number            // USGS significance, 0-1000+ (magnitude, felt reports and impact combined)
+  // Client-side, when reading from several oracles (lib/publisher-agreement.ts)
+  attestations?: Attestation[]        // Each publisher's values, highest priority first
+  disagreements?: AgreementIssue[]    // Fields the publishers disagree on beyond AGREEMENT_TOLERANCE
+}
+
+export type AgreementIssue = 'magnitude' | 'location'
+
+/**
+ * One oracle's record of an earthquake
+ */
+export interface Attestation {
+  publisher: `0x${string}`
+  magnitude: number
+  latitude: number
+  longitude: number
+  retracted?: boolean
+}
+
+export type SourceRecordFormat = 'geojson' | 'fdsn-text' | 'quakeml'
+
+/**
+ * A provider's record of one event, exactly as hashed for provenance
+ */
+export interface SourceRecord {
+  source: string           // Source name (EARTHQUAKE_SOURCES entry)
+  format: SourceRecordFormat
+  body: string             // Canonical text of the record: sorted-key JSON, or the FDSN text line
+  hash: `0x${string}`      // keccak256 of the UTF-8 body
+  fetchedAt: number        // Unix timestamp in ms
+}
+
+/**
+ * Companion record published with each earthquake (same data ID, provenance schema)
+ */
+export interface EarthquakeProvenance {
+  earthquakeId: string
+  sourceHash: `0x${string}`
+  source: string
+  format: SourceRecordFormat
+  fetchedAt: number        // Unix timestamp in ms
 }
 
+export type RetractionReason = 'deleted' | 'missing'
+
+/**
+ * Tombstone published when a source deletes an event we already put on-chain
+ */
+export interface EarthquakeRetraction {
+  earthquakeId: string
+  retractedAt: number     // Unix timestamp in ms
+  reason: RetractionReason
+}
+
+/**
+ * USGS GeoJSON feature after validation (lib/sources/usgs-validation.ts) -
+ * raw features can have a null `mag`, an empty `place` or no `url`
+ */
 export interface USGSEarthquake {
   id: string
   properties: {
     mag: number
     place: string
     time: number
+    updated: number       // Last revision time (ms) - changes when USGS revises the solution
+    status?: string       // 'automatic' | 'reviewed' | 'deleted' (deleted only appears in FDSN queries with includedeleted)
     url: string
+    magType?: string | null
+    tsunami?: number      // 1 or 0
+    alert?: string | null // PAGER level, null until PAGER has run
+    felt?: number | null
+    cdi?: number | null
+    mmi?: number | null
+    sig?: number
   }
   geometry: {
     coordinates: [number, number, number] // [lon, lat, depth]
   }
 }
 
-export interface USGSResponse {
-  type: string
-  features: USGSEarthquake[]
-  metadata: {
-    generated: number
-    count: number
-  }
-}
-